@@ -9,5 +9,6 @@
  *   npx mcp-code-wrapper --global            # Generate wrappers for global MCPs (~/.claude/)
  */
 
-// Import and run the generator
-import './generator.js';
+import { main } from './generator.js';
+
+main().catch(console.error);
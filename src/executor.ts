@@ -3,211 +3,10 @@
  * Executes user code and maps API calls to actual MCP tool invocations
  */
 
-import { spawn } from 'child_process';
-import { EventEmitter } from 'events';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { MCPClient } from './runtime-executor.js';
 
-interface MCPRequest {
-  jsonrpc: '2.0';
-  id: number;
-  method: string;
-  params?: any;
-}
-
-interface MCPResponse {
-  jsonrpc: '2.0';
-  id: number;
-  result?: any;
-  error?: any;
-}
-
-interface MCPConfig {
-  command: string;
-  args: string[];
-  description?: string;
-}
-
-/**
- * MCP Client that communicates with MCP server via stdio
- */
-export class MCPClient extends EventEmitter {
-  private process: any;
-  private requestId = 0;
-  private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
-  private buffer = '';
-  private config?: MCPConfig;
-  private env?: Record<string, string>;
-
-  async start(serverName?: string) {
-    // Load config from .mcp.json
-    try {
-      const mcpJsonPath = join(process.cwd(), '.mcp.json');
-      const mcpContent = await readFile(mcpJsonPath, 'utf-8');
-      const mcpConfig = JSON.parse(mcpContent);
-
-      // Use specified server or first available
-      const server = serverName || Object.keys(mcpConfig.mcpServers || {})[0];
-
-      if (!server || !mcpConfig.mcpServers?.[server]) {
-        throw new Error(`Server "${server}" not found in .mcp.json`);
-      }
-
-      const serverConfig = mcpConfig.mcpServers[server];
-      this.config = {
-        command: serverConfig.command,
-        args: serverConfig.args || []
-      };
-      this.env = serverConfig.env || {};
-
-      console.log(`📡 Using MCP server: ${server}`);
-    } catch (e) {
-      throw new Error('No .mcp.json found. Please run from a directory with .mcp.json configuration.');
-    }
-
-    // Start MCP server with config
-    this.process = spawn(this.config.command, this.config.args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, ...this.env }
-    });
-
-    // Handle stdout data
-    this.process.stdout.on('data', (data: Buffer) => {
-      this.buffer += data.toString();
-      this.processBuffer();
-    });
-
-    // Handle stderr
-    this.process.stderr.on('data', (data: Buffer) => {
-      console.error('MCP stderr:', data.toString());
-    });
-
-    // Wait for initialization
-    await this.initialize();
-  }
-
-  private processBuffer() {
-    const lines = this.buffer.split('\n');
-    this.buffer = lines.pop() || '';
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-
-      try {
-        const response: MCPResponse = JSON.parse(line);
-        const pending = this.pendingRequests.get(response.id);
-
-        if (pending) {
-          this.pendingRequests.delete(response.id);
-          if (response.error) {
-            pending.reject(new Error(response.error.message || 'MCP error'));
-          } else {
-            pending.resolve(response.result);
-          }
-        }
-      } catch (e) {
-        console.error('Failed to parse MCP response:', line);
-      }
-    }
-  }
-
-  private async initialize() {
-    // Send initialize request
-    await this.request('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
-      clientInfo: {
-        name: 'mcp-code-wrapper',
-        version: '1.0.0',
-      },
-    });
-
-    // Send initialized notification
-    this.notify('notifications/initialized', {});
-  }
-
-  private request(method: string, params?: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = ++this.requestId;
-      const request: MCPRequest = {
-        jsonrpc: '2.0',
-        id,
-        method,
-        params,
-      };
-
-      this.pendingRequests.set(id, { resolve, reject });
-      this.process.stdin.write(JSON.stringify(request) + '\n');
-
-      // Timeout after 30s
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error('Request timeout'));
-        }
-      }, 30000);
-    });
-  }
-
-  private notify(method: string, params?: any) {
-    const notification = {
-      jsonrpc: '2.0',
-      method,
-      params,
-    };
-    this.process.stdin.write(JSON.stringify(notification) + '\n');
-  }
-
-  /**
-   * Call an MCP tool
-   */
-  async callTool(name: string, args: any = {}): Promise<any> {
-    const result = await this.request('tools/call', {
-      name,
-      arguments: args,
-    });
-    return result;
-  }
-
-  /**
-   * List available tools (for debugging)
-   */
-  async listTools(): Promise<any> {
-    return await this.request('tools/list', {});
-  }
-
-  async stop() {
-    if (this.process) {
-      // Clear pending requests
-      this.pendingRequests.clear();
-
-      // Remove all listeners to prevent event loop from hanging
-      this.process.stdout.removeAllListeners();
-      this.process.stderr.removeAllListeners();
-      this.process.removeAllListeners();
-
-      // Kill the process
-      this.process.kill('SIGTERM');
-
-      // Force kill after 1 second if still running
-      await new Promise(resolve => {
-        const forceKillTimeout = setTimeout(() => {
-          if (this.process && !this.process.killed) {
-            this.process.kill('SIGKILL');
-          }
-          resolve(undefined);
-        }, 1000);
-
-        this.process.once('exit', () => {
-          clearTimeout(forceKillTimeout);
-          resolve(undefined);
-        });
-      });
-
-      this.process = null;
-    }
-  }
-}
+// Single client implementation, shared with the runtime executor
+export { MCPClient };
 
 /**
  * Build API proxy that maps function calls to MCP tool calls
@@ -3,444 +3,190 @@
  * Works with ANY MCP server by querying via the MCP protocol
  */
 
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import readline from 'readline';
-import { MCPClient } from './executor.js';
-
-// Embedded runtime executor template
-const RUNTIME_EXECUTOR_TEMPLATE = `/**
- * MCP Runtime Executor
- * Executes TypeScript code with MCP wrapper functions active
- *
- * Usage:
- *   npx tsx .mcp-wrappers/.runtime-executor.ts <server-name> <code-file>
- */
-
-import { spawn } from 'child_process';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
 import { pathToFileURL } from 'url';
+import { MCPClient, createTransport, describeServer, resolveSchemaRef } from './runtime-executor.js';
+import type { MCPServerConfig } from './runtime-executor.js';
 
-interface MCPRequest {
-  jsonrpc: '2.0';
-  id: number;
-  method: string;
-  params?: any;
-}
 
-interface MCPResponse {
-  jsonrpc: '2.0';
-  id: number;
-  result?: any;
-  error?: any;
+export interface MCPTool {
+  name: string;
+  description?: string;
+  inputSchema?: {
+    type: string;
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+  outputSchema?: {
+    type: string;
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+  };
 }
 
-class MCPClient {
-  private process: any;
-  private requestId = 0;
-  private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
-  private buffer = '';
-
-  async start(command: string, args: string[], env: Record<string, string> = {}) {
-    this.process = spawn(command, args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, ...env }
-    });
-
-    this.process.stdout.on('data', (data: Buffer) => {
-      this.buffer += data.toString();
-      this.processBuffer();
-    });
-
-    this.process.stderr.on('data', (data: Buffer) => {
-      // Suppress stderr unless error
-    });
-
-    this.process.on('error', (err: Error) => {
-      console.error('MCP process error:', err);
-    });
-
-    await this.initialize();
-  }
-
-  private processBuffer() {
-    const lines = this.buffer.split('\\n');
-    this.buffer = lines.pop() || '';
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-
-      try {
-        const response: MCPResponse = JSON.parse(line);
-        const pending = this.pendingRequests.get(response.id);
-
-        if (pending) {
-          this.pendingRequests.delete(response.id);
-          if (response.error) {
-            pending.reject(new Error(response.error.message || JSON.stringify(response.error)));
-          } else {
-            pending.resolve(response.result);
-          }
-        }
-      } catch (e) {
-        // Ignore parse errors for non-JSON lines
-      }
-    }
-  }
-
-  private async initialize() {
-    await this.request('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
-      clientInfo: {
-        name: 'mcp-code-wrapper-executor',
-        version: '1.0.0',
-      },
-    });
-
-    this.notify('notifications/initialized', {});
-  }
-
-  private request(method: string, params?: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = ++this.requestId;
-      const request: MCPRequest = {
-        jsonrpc: '2.0',
-        id,
-        method,
-        params,
-      };
-
-      this.pendingRequests.set(id, { resolve, reject });
-      this.process.stdin.write(JSON.stringify(request) + '\\n');
-
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error(\`Request timeout: \${method}\`));
-        }
-      }, 30000);
-    });
-  }
-
-  private notify(method: string, params?: any) {
-    const notification = {
-      jsonrpc: '2.0',
-      method,
-      params,
-    };
-    this.process.stdin.write(JSON.stringify(notification) + '\\n');
-  }
-
-  async callTool(name: string, args: any = {}): Promise<any> {
-    const result = await this.request('tools/call', {
-      name,
-      arguments: args,
-    });
-    return this.normalizeResponse(result);
-  }
-
-  /**
-   * Normalize MCP responses to handle common unusual formats
-   */
-  private normalizeResponse(result: any): any {
-    // If result has content array with text, parse it first
-    if (result?.content?.[0]?.text) {
-      try {
-        const parsed = JSON.parse(result.content[0].text);
-        return this.normalizeData(parsed);
-      } catch {
-        return result;
-      }
-    }
-
-    return this.normalizeData(result);
-  }
-
-  /**
-   * Recursively normalize data structures
-   */
-  private normalizeData(data: any): any {
-    if (Array.isArray(data)) {
-      return data.map(item => this.normalizeData(item));
-    }
-
-    if (data && typeof data === 'object') {
-      // Handle { "": value } pattern - unwrap to just value
-      const keys = Object.keys(data);
-      if (keys.length === 1 && keys[0] === '') {
-        const value = data[''];
-        // If value is a primitive, return it directly
-        if (typeof value !== 'object') {
-          return value;
-        }
-        // If value is an object, normalize it
-        return this.normalizeData(value);
-      }
-
-      // Otherwise normalize each property
-      const normalized: any = {};
-      for (const [key, value] of Object.entries(data)) {
-        normalized[key] = this.normalizeData(value);
-      }
-      return normalized;
-    }
-
-    return data;
-  }
-
-  async stop() {
-    if (this.process) {
-      // Clear pending requests
-      this.pendingRequests.clear();
-
-      // Remove all listeners to prevent event loop from hanging
-      this.process.stdout.removeAllListeners();
-      this.process.stderr.removeAllListeners();
-      this.process.removeAllListeners();
-
-      // Kill the process
-      this.process.kill('SIGTERM');
-
-      // Force kill after 1 second if still running
-      await new Promise(resolve => {
-        const forceKillTimeout = setTimeout(() => {
-          if (this.process && !this.process.killed) {
-            this.process.kill('SIGKILL');
-          }
-          resolve(undefined);
-        }, 1000);
-
-        this.process.once('exit', () => {
-          clearTimeout(forceKillTimeout);
-          resolve(undefined);
-        });
-      });
-
-      this.process = null;
-    }
-  }
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
 }
 
-/**
- * Load MCP server config from .mcp.json
- */
-async function loadServerConfig(serverName: string): Promise<{ command: string; args: string[]; env: Record<string, string> }> {
-  const mcpJsonPath = join(process.cwd(), '.mcp.json');
-  const content = await readFile(mcpJsonPath, 'utf-8');
-  const config = JSON.parse(content);
-
-  const serverMapping = await loadServerMapping();
-  const actualServerName = Object.keys(serverMapping).find(key => serverMapping[key] === serverName) || serverName;
-
-  const serverConfig = config.mcpServers?.[actualServerName];
-  if (!serverConfig) {
-    throw new Error(\`Server "\${actualServerName}" not found in .mcp.json\`);
-  }
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
 
-  return {
-    command: serverConfig.command,
-    args: serverConfig.args || [],
-    env: serverConfig.env || {}
-  };
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
 }
 
 /**
- * Load server-to-wrapper mapping
+ * What the generator learned about a server: its identity, capabilities, tools, resources and prompts
  */
-async function loadServerMapping(): Promise<Record<string, string>> {
-  try {
-    const mappingPath = join(process.cwd(), '.mcp-wrappers', '.mcp-server-mapping.json');
-    const content = await readFile(mappingPath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return {};
-  }
+export interface ExtractedServer {
+  serverInfo?: { name: string; version: string; title?: string };
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  instructions?: string;
+  tools: MCPTool[];
+  resources: MCPResource[];
+  resourceTemplates: MCPResourceTemplate[];
+  prompts: MCPPrompt[];
 }
 
 /**
- * Create wrapper function proxy that calls MCP tools
+ * Follow nextCursor until the list is complete. Items repeated across pages are
+ * dropped, and a cursor the server already returned ends the loop.
  */
-function createWrapperProxy(client: MCPClient) {
-  return new Proxy({}, {
-    get(target, prop) {
-      if (typeof prop === 'string') {
-        return async (params: any) => {
-          return await client.callTool(prop, params);
-        };
+async function listAllPages<T extends { name?: string; uri?: string; uriTemplate?: string }>(
+  label: string,
+  itemsKey: string,
+  fetchPage: (cursor?: string) => Promise<any>
+): Promise<T[]> {
+  const items = new Map<string, T>();
+  const seenCursors = new Set<string>();
+  let reportedTotal: number | undefined;
+  let pages = 0;
+  let duplicates = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    pages++;
+
+    for (const item of (page?.[itemsKey] || []) as T[]) {
+      const key = item.name ?? item.uri ?? item.uriTemplate ?? JSON.stringify(item);
+      if (items.has(key)) {
+        duplicates++;
+      } else {
+        items.set(key, item);
       }
-      return undefined;
     }
-  });
-}
-
-/**
- * Detect if this is a TypeScript local server (wrappers in .mcp-server/dist/wrappers/)
- * This checks if the SERVER ITSELF is built locally, not if the project has any local servers
- */
-async function isTypescriptLocal(serverName: string): Promise<boolean> {
-  try {
-    const { stat } = await import('fs/promises');
-    const config = await loadServerConfig(serverName);
 
-    // Check if the command points to a local .mcp-server directory
-    const isLocalServer = config.command.includes('.mcp-server') ||
-                          config.args.some(arg => arg.includes('.mcp-server'));
+    // Not part of the spec, but some servers report how many items exist in total
+    const total = page?.total ?? page?._meta?.total;
+    if (typeof total === 'number') {
+      reportedTotal = total;
+    }
 
-    if (!isLocalServer) {
-      return false;
+    cursor = page?.nextCursor || undefined;
+    if (cursor && seenCursors.has(cursor)) {
+      console.log(`⚠️  ${label}: server returned cursor "${cursor}" twice - stopping after ${pages} pages`);
+      break;
     }
+    if (cursor) seenCursors.add(cursor);
+  } while (cursor);
 
-    // Verify the wrappers directory exists
-    const wrappersPath = join(process.cwd(), '.mcp-server', 'dist', 'wrappers');
-    await stat(wrappersPath);
-    return true;
-  } catch {
-    return false;
+  if (pages > 1) {
+    console.log(`📄 ${label}: ${items.size} across ${pages} pages`);
+  }
+  if (duplicates > 0) {
+    console.log(`⚠️  ${label}: ignored ${duplicates} duplicate entries across pages`);
+  }
+  if (reportedTotal !== undefined && reportedTotal !== items.size) {
+    console.log(`⚠️  ${label}: server reports ${reportedTotal} but listed ${items.size} - wrappers may be incomplete`);
   }
-}
-
-/**
- * Execute user code with MCP client active
- */
-async function executeCode(serverName: string, codeFile: string) {
-  console.log(\`🚀 Starting MCP executor for server: \${serverName}\\n\`);
-
-  // Load server config
-  const config = await loadServerConfig(serverName);
 
-  // Check if this is a TypeScript local server
-  const isLocal = await isTypescriptLocal(serverName);
+  return [...items.values()];
+}
 
-  let client: MCPClient | null = null;
+async function extractToolsFromMCP(server: MCPServerConfig): Promise<ExtractedServer> {
+  console.log(`📡 Connecting to MCP server: ${describeServer(server)}\n`);
 
-  if (isLocal) {
-    // TypeScript local: just set env vars, no MCP subprocess needed!
-    console.log(\`⚡ TypeScript local mode: Direct imports\\n\`);
-    Object.assign(process.env, config.env);
-  } else {
-    // Protocol server: spawn MCP subprocess
-    console.log(\`📡 Spawning MCP server: \${config.command} \${config.args.join(' ')}\\n\`);
-    client = new MCPClient();
-    await client.start(config.command, config.args, config.env);
+  const client = new MCPClient();
+  if (server.timeout !== undefined) {
+    client.setDefaultTimeout(server.timeout);
   }
+  await client.connect(createTransport(server));
 
-  console.log(\`✅ MCP executor ready\\n\`);
+  const details = client.getServerDetails()!;
+  const capabilities = details.capabilities;
+  const serverLabel = details.serverInfo ? `${details.serverInfo.name} ${details.serverInfo.version}` : 'server';
+  console.log(`🤝 ${serverLabel} (protocol ${details.protocolVersion}): ${describeCapabilities(capabilities)}\n`);
 
-  // Create global proxy for wrapper functions (only for protocol servers)
-  if (client) {
-    const wrapperProxy = createWrapperProxy(client);
-    (global as any).__mcpClient = client;
-    (global as any).__mcpWrapper = wrapperProxy;
+  // Only ask for tools if the server says it has them
+  let tools: MCPTool[] = [];
+  if (capabilities.tools) {
+    tools = await listAllPages<MCPTool>('tools', 'tools', cursor => client.listTools(cursor));
+  } else {
+    console.log(`⚠️  Server does not declare the tools capability\n`);
   }
 
-  // Read and execute user code
-  console.log(\`📝 Executing: \${codeFile}\\n\`);
-  console.log('='.repeat(70));
-  console.log('OUTPUT:');
-  console.log('='.repeat(70) + '\\n');
+  let resources: MCPResource[] = [];
+  let resourceTemplates: MCPResourceTemplate[] = [];
+  if (capabilities.resources) {
+    resources = await listAllPages<MCPResource>('resources', 'resources', cursor => client.listResources(cursor));
 
-  try {
-    // Import and execute the code file
-    const codeModule = await import(pathToFileURL(codeFile).href);
-
-    // If it has a default export that's a function, call it
-    if (typeof codeModule.default === 'function') {
-      const result = await codeModule.default();
-      if (result !== undefined) {
-        console.log('\\n' + '='.repeat(70));
-        console.log('RESULT:');
-        console.log('='.repeat(70));
-        console.log(JSON.stringify(result, null, 2));
-      }
-    }
-  } catch (error: any) {
-    console.error('\\n❌ Execution error:', error.message);
-    if (error.stack) {
-      console.error('\\nStack trace:');
-      console.error(error.stack);
+    // Templates are optional - some servers only implement resources/list
+    try {
+      resourceTemplates = await listAllPages<MCPResourceTemplate>(
+        'resource templates',
+        'resourceTemplates',
+        cursor => client.listResourceTemplates(cursor)
+      );
+    } catch (error: any) {
+      console.log(`⚠️  resources/templates/list failed: ${error.message}\n`);
     }
-  } finally {
-    console.log('\\n' + '='.repeat(70));
-    // Don't stop the client - leave MCP server running for reuse
-    // It will clean up when the process exits
   }
-}
-
-// CLI entry point
-async function main() {
-  const args = process.argv.slice(2);
 
-  if (args.length < 2) {
-    console.log('Usage: npx tsx .mcp-wrappers/.runtime-executor.ts <server-name> <code-file>');
-    console.log('\\nExample:');
-    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts mssql ./my-query.ts');
-    process.exit(1);
+  let prompts: MCPPrompt[] = [];
+  if (capabilities.prompts) {
+    prompts = await listAllPages<MCPPrompt>('prompts', 'prompts', cursor => client.listPrompts(cursor));
   }
 
-  const [serverName, codeFile] = args;
-  await executeCode(serverName, codeFile);
-}
-
-// Only run main if this is the entry point
-if (import.meta.url === pathToFileURL(process.argv[1]).href) {
-  main().catch(console.error);
-}
+  await client.stop();
 
-export { MCPClient, createWrapperProxy, executeCode };
-`;
+  console.log(`✅ Extracted ${tools.length} tools`
+    + (capabilities.resources ? `, ${resources.length} resources, ${resourceTemplates.length} resource templates` : '')
+    + (capabilities.prompts ? `, ${prompts.length} prompts` : '')
+    + '\n');
 
-interface MCPTool {
-  name: string;
-  description?: string;
-  inputSchema?: {
-    type: string;
-    properties?: Record<string, any>;
-    required?: string[];
-  };
+  return { ...details, tools, resources, resourceTemplates, prompts };
 }
 
-async function extractToolsFromMCP(
-  command: string,
-  args: string[] = []
-): Promise<MCPTool[]> {
-  console.log(`📡 Connecting to MCP server: ${command} ${args.join(' ')}\n`);
-
-  const client = new MCPClient();
-
-  // Override the spawn command to use provided command/args
-  const originalStart = client.start.bind(client);
-  client.start = async function() {
-    const { spawn } = await import('child_process');
-    (this as any).process = spawn(command, args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    // Setup handlers (copied from MCPClient)
-    (this as any).process.stdout.on('data', (data: Buffer) => {
-      (this as any).buffer += data.toString();
-      (this as any).processBuffer();
-    });
-
-    (this as any).process.stderr.on('data', (data: Buffer) => {
-      // Suppress stderr noise during tool extraction
-    });
-
-    // Wait for initialization
-    await (this as any).initialize();
-  };
-
-  await client.start();
-
-  // Get tool list via MCP protocol
-  const tools = await client.listTools();
-
-  await client.stop();
-
-  console.log(`✅ Extracted ${tools.tools?.length || 0} tools\n`);
-
-  return tools.tools || [];
+/**
+ * Comma-separated list of declared top-level capabilities (tools, resources, prompts, logging, ...)
+ */
+function describeCapabilities(capabilities: Record<string, any>): string {
+  const names = Object.keys(capabilities).filter(name => capabilities[name]);
+  return names.length > 0 ? names.join(', ') : 'no capabilities declared';
 }
 
 function categorizeTools(tools: MCPTool[]): Record<string, MCPTool[]> {
@@ -503,37 +249,56 @@ async function generateToolFile(
   tool: MCPTool,
   serverName: string,
   serverType: 'typescript-local' | 'protocol' = 'protocol',
-  projectPath: string = process.cwd()
+  projectPath: string = process.cwd(),
+  identifier: ToolIdentifier = { functionName: safeIdentifier(tool.name), typeName: pascalCase(tool.name) }
 ): Promise<string> {
   const params = extractParameters(tool);
+  const { functionName } = identifier;
+  const summary = docText(tool.description || tool.name);
 
-  // Generate parameter interface with improved type mapping
-  const paramInterface = params.length > 0 ? `{
-${params.map(p => `  ${p.name}${p.required ? '' : '?'}: ${mapJsonSchemaType(p.schema)};`).join('\n')}
-}` : 'Record<string, never>';
-
-  // Escape description for safe embedding in strings
-  const description = (tool.description || tool.name).replace(/'/g, "\\'").replace(/\n/g, ' ');
+  // Named types for this tool's schemas: <Tool>Params, <Tool>Result and their nested parts
+  const typeName = identifier.typeName;
+  const types = createTypeContext(tool.inputSchema, typeName, true);
+  const inputSchema: any = tool.inputSchema;
+  const paramInterface = params.length > 0 || hasComposition(inputSchema) || inputSchema?.$ref
+    ? declareSchemaType(inputSchema, types, `${typeName}Params`, `Parameters of ${tool.name}`)
+    : 'Record<string, never>';
 
   // Generate JSDoc parameter documentation
   const paramDocs = params.length > 0 ? '\n *\n' + params.map(p => {
-    const desc = p.description ? ` - ${p.description.replace(/\n/g, ' ')}` : '';
+    const desc = p.description ? ` - ${commentSafe(p.description.replace(/\n/g, ' '))}` : '';
     const typeInfo = p.schema?.enum ? ` (${p.schema.enum.join(', ')})` : '';
     const defaultVal = p.schema?.default !== undefined ? ` Default: ${JSON.stringify(p.schema.default)}` : '';
-    return ` * @param ${p.name}${desc}${typeInfo}${defaultVal}`;
+    return ` * @param ${commentSafe(p.name)}${desc}${commentSafe(typeInfo + defaultVal)}`;
   }).join('\n') : '';
 
-  // Capitalize first letter of tool name for class name
-  const className = tool.name.split('_').map(s => s.charAt(0).toUpperCase() + s.slice(1)).join('');
+  // Read-only/idempotent tools can be replayed if the server restarts mid-call
+  const idempotent = Boolean(tool.annotations?.readOnlyHint || tool.annotations?.idempotentHint);
+  // Schemas go to the client: arguments are checked before sending, responses on request
+  const defaults = [
+    ...(idempotent ? ['idempotent: true'] : []),
+    ...(tool.inputSchema ? ['inputSchema: metadata.inputSchema'] : []),
+    ...(tool.outputSchema ? ['outputSchema: metadata.outputSchema'] : []),
+  ];
+  const callOptions = defaults.length > 0 ? `{ ${defaults.join(', ')}, ...options }` : 'options';
+
+  // Class name the local server gives this tool (read_data -> ReadDataTool)
+  const className = pascalCase(tool.name);
+
+  // Declared output schema: the client returns structuredContent, typed by this interface
+  const resultType = tool.outputSchema
+    ? declareSchemaType(tool.outputSchema, createTypeContext(tool.outputSchema, typeName, false, types), `${typeName}Result`, `Structured result of ${tool.name}`)
+    : 'any';
+  const declarations = types.declarations.length > 0 ? `\n${types.declarations.join('\n\n')}\n` : '';
 
   if (serverType === 'typescript-local') {
     // Direct TypeScript import - wrappers live in .mcp-server/dist/wrappers/
     // This resolves all imports from the same node_modules!
     return `/**
- * ${tool.description || tool.name}
+ * ${summary}
  *
  * @category ${category}
- * @source ${serverName} (Direct TypeScript Import)${paramDocs}
+ * @source ${commentSafe(serverName)} (Direct TypeScript Import)${paramDocs}
  *
  * @returns Response format: { success?, message?, items/data/rows?: [...] }
  *          Extract data: \`result.items || result.data || result.rows || result\`
@@ -542,7 +307,7 @@ ${params.map(p => `  ${p.name}${p.required ? '' : '?'}: ${mapJsonSchemaType(p.sc
 import sql from 'mssql';
 import { createSqlConfig } from '../../index.js';
 import { ${className}Tool } from '../../tools/${className}Tool.js';
-
+${declarations}
 let initialized = false;
 
 async function ensureInit() {
@@ -553,7 +318,7 @@ async function ensureInit() {
   }
 }
 
-export async function ${tool.name}(params: ${paramInterface}): Promise<any> {
+export async function ${functionName}(params: ${paramInterface}): Promise<any> {
   await ensureInit();
   const tool = new ${className}Tool();
   return await tool.run(params);
@@ -563,148 +328,799 @@ export async function ${tool.name}(params: ${paramInterface}): Promise<any> {
  * Tool metadata for progressive discovery
  */
 export const metadata = {
-  name: '${tool.name}',
-  category: '${category}',
-  description: '${description}',
+  name: ${stringLiteral(tool.name)},
+  category: ${stringLiteral(category)},
+  description: ${stringLiteral(tool.description || tool.name)},
   parameters: ${JSON.stringify(params.map(p => p.name), null, 2)},
   inputSchema: ${JSON.stringify(tool.inputSchema, null, 2)},
 };
 `;
   } else {
     // Protocol-based approach (current implementation)
-    return `/**
- * ${tool.description || tool.name}
+    return `import type { CallOptions } from '../types.js';
+${declarations}
+/**
+ * ${summary}
  *
  * @category ${category}
- * @source ${serverName}${paramDocs}
+ * @source ${commentSafe(serverName)}${functionName !== tool.name ? `\n * @tool ${commentSafe(tool.name)}` : ''}${paramDocs}
+ * @param options - onProgress callback, AbortSignal and timeout for long-running calls
  *
- * @returns Response format: { success?, message?, items/data/rows?: [...] }
- *          Extract data: \`result.items || result.data || result.rows || result\`
+${tool.outputSchema
+  ? ` * @returns ${resultType} - the tool's structuredContent, as declared by its outputSchema`
+  : ` * @returns Response format: { success?, message?, items/data/rows?: [...] }
+ *          Extract data: \`result.items || result.data || result.rows || result\``}
+ * @throws {MCPToolError} The tool reported a failure (isError); \`content\` holds its output
+ * @throws {MCPProtocolError} The server rejected the request (\`code\`, \`data\` from JSON-RPC)
+ * @throws {MCPTimeoutError} No response within the timeout
+ * @throws {MCPTransportClosedError} The server exited or the connection dropped
+ * @throws {MCPValidationError} \`params\` break the inputSchema (nothing is sent)${tool.outputSchema ? ', or the response\n *         breaks the outputSchema (strict output validation only)' : ''}
+ */
+export async function ${functionName}(params: ${paramInterface}, options: CallOptions = {}): Promise<${resultType}> {
+${generateClientLookup(serverName)}
+  return await client.callTool(${stringLiteral(tool.name)}, params, ${callOptions});
+}
+
+/**
+ * Tool metadata for progressive discovery
+ */
+export const metadata = {
+  name: ${stringLiteral(tool.name)},
+  category: ${stringLiteral(category)},
+  description: ${stringLiteral(tool.description || tool.name)},
+  parameters: ${JSON.stringify(params.map(p => p.name), null, 2)},
+  inputSchema: ${JSON.stringify(tool.inputSchema, null, 2)},${tool.outputSchema ? `
+  outputSchema: ${JSON.stringify(tool.outputSchema, null, 2)},` : ''}
+};
+`;
+  }
+}
+
+/**
+ * Object key as written in generated code - quoted unless it is a plain identifier
  */
-export async function ${tool.name}(params: ${paramInterface}): Promise<any> {
-  // Check if running in MCP executor context
-  const client = (global as any).__mcpClient;
-  if (!client) {
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : stringLiteral(name);
+}
+
+/**
+ * Generated-code preamble that fetches the server's client from the executor's registry
+ */
+function generateClientLookup(serverName: string): string {
+  return `  // Check if running in MCP executor context
+  const registry = (globalThis as any).__mcpClients;
+  if (!registry) {
     throw new Error(
       'This function must be called through the MCP executor.\\n' +
-      'Run: npx tsx .mcp-wrappers/.runtime-executor.ts ${serverName} <your-code.ts>'
+      ${stringLiteral(`Run: npx tsx .mcp-wrappers/.runtime-executor.ts ${serverName} <your-code.ts>`)}
     );
   }
 
-  // Call the MCP tool via the client
-  return await client.callTool('${tool.name}', params);
+  // Route to this wrapper's server - it starts on first use
+  const client = await registry.get(${stringLiteral(serverName)});`;
+}
+
+/**
+ * Single-quoted TypeScript string literal
+ */
+function stringLiteral(value: string): string {
+  const escaped = String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `'${escaped}'`;
+}
+
+/**
+ * Words that can't name a function or binding in a strict-mode ES module
+ */
+const RESERVED_WORDS = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function',
+  'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+]);
+
+/**
+ * Valid TypeScript identifier from an MCP name: punctuation becomes `_`, a leading
+ * digit gets a `_` prefix and reserved words a `_` suffix. Names that are
+ * already valid come back unchanged.
+ */
+function safeIdentifier(name: string): string {
+  const identifier = String(name).replace(/[^A-Za-z0-9_$]+/g, '_') || 'unnamed';
+  const leading = /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+  return RESERVED_WORDS.has(leading) ? `${leading}_` : leading;
+}
+
+/**
+ * Reserve a name within a directory or module. `taken` holds lower-cased names,
+ * so two wrappers never differ only by case (their files would clash on
+ * case-insensitive filesystems).
+ */
+function claimName(base: string, taken: Set<string>, separator: string = '_'): string {
+  let name = base;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) {
+    name = `${base}${separator}${i}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Names a tool is emitted under: its function (and file) name and the prefix of its types
+ */
+interface ToolIdentifier {
+  functionName: string;
+  typeName: string;
+}
+
+/**
+ * Identifiers for every tool of a server. Names that are already valid are claimed
+ * first, then mangled ones, each in sorted order - so the generator and the skill
+ * writer agree on collision suffixes whatever order the tools were listed in.
+ * Tools keep their MCP name in metadata and on the wire.
+ */
+function assignToolIdentifiers(tools: MCPTool[]): Map<string, ToolIdentifier> {
+  const functionNames = new Set<string>(['index', 'types']);
+  const typeNames = new Set<string>();
+  const identifiers = new Map<string, ToolIdentifier>();
+
+  const names = tools.map(tool => tool.name).sort();
+  const valid = names.filter(name => safeIdentifier(name) === name);
+  for (const name of [...valid, ...names.filter(name => safeIdentifier(name) !== name)]) {
+    if (identifiers.has(name)) continue;
+    const functionName = claimName(safeIdentifier(name), functionNames);
+    identifiers.set(name, { functionName, typeName: claimName(pascalCase(functionName), typeNames, '') });
+  }
+
+  return identifiers;
+}
+
+/**
+ * Free text inside a JSDoc block: `*\/` is broken up and continuation lines keep the ` * ` gutter
+ */
+function docText(text: string, indent: string = ''): string {
+  return commentSafe(String(text).trim()).split(/\r?\n/).map(line => line.trimEnd()).join(`\n${indent} * `);
+}
+
+/**
+ * Variables of an RFC 6570 URI template. Path-style expansions are required,
+ * query expansions ({?a,b} and {&c}) optional.
+ */
+function extractTemplateVariables(uriTemplate: string): { name: string; required: boolean; explode: boolean }[] {
+  const variables = new Map<string, { name: string; required: boolean; explode: boolean }>();
+
+  for (const [, operator, specs] of uriTemplate.matchAll(/\{([+#./;?&]?)([^}]+)\}/g)) {
+    for (const spec of specs.split(',')) {
+      const [, name, explode] = spec.trim().match(/^([^:*]+)(\*)?/) || [];
+      if (name && !variables.has(name)) {
+        variables.set(name, { name, required: operator !== '?' && operator !== '&', explode: Boolean(explode) });
+      }
+    }
+  }
+
+  return [...variables.values()];
+}
+
+/**
+ * snake_case function name for a resource or prompt, made unique within its directory
+ */
+function uniqueFunctionName(name: string, taken: Set<string>, prefix: string = ''): string {
+  const snake = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'unnamed';
+  return claimName(safeIdentifier(prefix + snake), taken);
+}
+
+/**
+ * Reader for one resource; watchName is set for static resources on servers that support subscriptions
+ */
+function generateResourceFile(
+  functionName: string,
+  resource: MCPResource | MCPResourceTemplate,
+  serverName: string,
+  watchName?: string
+): string {
+  const isTemplate = 'uriTemplate' in resource;
+  const variables = isTemplate ? extractTemplateVariables(resource.uriTemplate) : [];
+  const summary = docText(resource.description || resource.title || resource.name);
+
+  const paramInterface = `{
+${variables.map(v => `  ${propertyKey(v.name)}${v.required ? '' : '?'}: ${v.explode ? 'Array<string | number>' : 'string | number'};`).join('\n')}
+}`;
+  const paramDocs = variables.map(v => commentSafe(`\n * @param params.${v.name} - \`{${v.name}}\` in the URI template`)).join('');
+  const location = commentSafe(isTemplate ? ` * @uriTemplate ${resource.uriTemplate}` : ` * @uri ${resource.uri}`);
+  const read = isTemplate
+    ? `client.readResourceTemplate(${stringLiteral(resource.uriTemplate)}, params, options)`
+    : `client.readResource(${stringLiteral(resource.uri)}, options)`;
+
+  const watch = watchName && !isTemplate ? `
+/**
+ * Call \`onChange\` whenever the server reports that this resource changed.
+ * Resolves to a function that stops watching.
+ *
+ * @uri ${commentSafe(resource.uri)}
+ */
+export async function ${watchName}(onChange: (uri: string) => void): Promise<() => Promise<void>> {
+${generateClientLookup(serverName)}
+  return await client.subscribeResource(${stringLiteral(resource.uri)}, onChange);
+}
+` : '';
+
+  return `import type { CallOptions, ResourceContents } from '../types.js';
+
+/**
+ * ${summary}
+ *
+ * @category resources
+ * @source ${commentSafe(serverName)}
+${location}${resource.mimeType ? `\n * @mimeType ${commentSafe(resource.mimeType)}` : ''}${paramDocs}
+ * @param options - AbortSignal and timeout for this read
+ *
+ * @returns One entry per part: \`text\`, or base64 \`blob\` for binary data
+ * @throws {MCPProtocolError} The server rejected the read (e.g. unknown URI)
+ * @throws {MCPTimeoutError} No response within the timeout
+ * @throws {MCPTransportClosedError} The server exited or the connection dropped
+ */
+export async function ${functionName}(${isTemplate ? `params: ${paramInterface}, ` : ''}options: CallOptions = {}): Promise<ResourceContents[]> {
+${generateClientLookup(serverName)}
+  return await ${read};
+}
+${watch}
+/**
+ * Resource metadata for progressive discovery
+ */
+export const metadata = ${JSON.stringify({
+    name: resource.name,
+    category: 'resources',
+    description: resource.description,
+    ...(isTemplate ? { uriTemplate: resource.uriTemplate } : { uri: resource.uri }),
+    mimeType: resource.mimeType,
+    parameters: variables.map(v => v.name),
+  }, null, 2)};
+`;
+}
+
+/**
+ * Function for one prompt; completeName is set for prompts with arguments on servers that offer completions
+ */
+function generatePromptFile(functionName: string, prompt: MCPPrompt, serverName: string, completeName?: string): string {
+  const args = prompt.arguments || [];
+  const summary = docText(prompt.description || prompt.title || prompt.name);
+
+  const argsInterface = `{
+${args.map(a => `  ${propertyKey(a.name)}${a.required ? '' : '?'}: string;`).join('\n')}
+}`;
+  const argDocs = args.map(a => {
+    const desc = a.description ? ` - ${a.description.replace(/\n/g, ' ')}` : '';
+    return commentSafe(`\n * @param args.${a.name}${desc}`);
+  }).join('');
+  const argsParam = args.length === 0
+    ? ''
+    : `args: ${argsInterface}${args.some(a => a.required) ? '' : ' = {}'}, `;
+
+  const complete = completeName && args.length > 0 ? `
+/**
+ * Suggest values for an argument of ${functionName}, e.g. while the user is still typing
+ *
+ * @param argument - Argument to complete
+ * @param value - What has been typed so far
+ * @param context - Arguments already chosen, for servers that narrow suggestions by them
+ */
+export async function ${completeName}(
+  argument: ${args.map(a => stringLiteral(a.name)).join(' | ')},
+  value: string = '',
+  context: Partial<Parameters<typeof ${functionName}>[0]> = {}
+): Promise<CompletionResult> {
+${generateClientLookup(serverName)}
+  return await client.complete({ type: 'ref/prompt', name: ${stringLiteral(prompt.name)} }, { name: argument, value }, context);
+}
+` : '';
+
+  return `import type { CallOptions, PromptResult${complete ? ', CompletionResult' : ''} } from '../types.js';
+
+/**
+ * ${summary}
+ *
+ * @category prompts
+ * @source ${commentSafe(serverName)}
+ * @prompt ${commentSafe(prompt.name)}${argDocs}
+ * @param options - AbortSignal and timeout for this request
+ *
+ * @returns The rendered prompt: \`{ description?, messages: [{ role, content }] }\`
+ * @throws {MCPProtocolError} The server rejected the request (e.g. missing argument)
+ * @throws {MCPTimeoutError} No response within the timeout
+ * @throws {MCPTransportClosedError} The server exited or the connection dropped
+ */
+export async function ${functionName}(${argsParam}options: CallOptions = {}): Promise<PromptResult> {
+${generateClientLookup(serverName)}
+  return await client.getPrompt(${stringLiteral(prompt.name)}, ${args.length > 0 ? 'args' : '{}'}, options);
+}
+${complete}
+/**
+ * Prompt metadata for progressive discovery
+ */
+export const metadata = ${JSON.stringify({
+    name: prompt.name,
+    category: 'prompts',
+    description: prompt.description,
+    arguments: args,
+  }, null, 2)};
+`;
+}
+
+/**
+ * State shared while turning one tool's schemas into TypeScript: the declarations
+ * emitted so far, the names they took, and which $refs already have a type
+ */
+interface TypeContext {
+  root: any;
+  prefix: string;
+  declarations: string[];
+  names: Set<string>;
+  refs: Map<string, string>;
+  /** Properties with a default are optional - the client fills them in before sending */
+  defaultsOptional: boolean;
+}
+
+function createTypeContext(root: any, prefix: string, defaultsOptional: boolean = false, shared?: TypeContext): TypeContext {
+  return {
+    root,
+    prefix,
+    declarations: shared?.declarations || [],
+    names: shared?.names || new Set(),
+    refs: new Map(),
+    defaultsOptional,
+  };
+}
+
+/**
+ * PascalCase type name from a tool, property or $defs name
+ */
+function pascalCase(value: string): string {
+  const name = String(value).split(/[^A-Za-z0-9]+/).filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name || 'Anonymous';
+}
+
+function reserveTypeName(base: string, context: TypeContext): string {
+  let name = base;
+  for (let i = 2; context.names.has(name); i++) {
+    name = `${base}${i}`;
+  }
+  context.names.add(name);
+  return name;
+}
+
+/**
+ * Text that is safe inside a block comment
+ */
+function commentSafe(text: string): string {
+  return text.replace(/\*\//g, '*\\/');
+}
+
+/**
+ * JSDoc block from a schema's description, default, format and deprecation
+ */
+function schemaDoc(schema: any, indent: string = '', fallback?: string): string {
+  const lines: string[] = [];
+  const description = schema?.description || schema?.title || fallback;
+  if (description) lines.push(...String(description).trim().split('\n'));
+  if (schema?.default !== undefined) lines.push(`@default ${JSON.stringify(schema.default)}`);
+  if (schema?.format) lines.push(`@format ${schema.format}`);
+  if (schema?.deprecated) lines.push('@deprecated');
+  if (lines.length === 0) return '';
+
+  const safe = lines.map(line => commentSafe(line).trimEnd());
+  if (safe.length === 1) return `${indent}/** ${safe[0]} */\n`;
+  return `${indent}/**\n${safe.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+function hasComposition(schema: any): boolean {
+  return Boolean(schema?.allOf || schema?.anyOf || schema?.oneOf);
+}
+
+/**
+ * An object schema with declared properties - these become named interfaces
+ */
+function isInterfaceSchema(schema: any): boolean {
+  return Boolean(schema && typeof schema === 'object'
+    && (schema.type === 'object' || schema.type === undefined)
+    && schema.properties && Object.keys(schema.properties).length > 0
+    && !hasComposition(schema) && schema.$ref === undefined && !schema.nullable);
+}
+
+function literalType(value: any): string {
+  if (typeof value === 'string') return stringLiteral(value);
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+  return 'any';
+}
+
+function unionOf(members: string[]): string {
+  const unique = [...new Set(members)];
+  if (unique.includes('any')) return 'any';
+  return unique.length > 0 ? unique.join(' | ') : 'never';
+}
+
+function intersectionOf(parts: string[]): string {
+  const unique = [...new Set(parts)].filter(part => part !== 'any');
+  if (unique.length === 0) return 'any';
+  return unique.map(part => (unique.length > 1 && /[|]/.test(part) ? `(${part})` : part)).join(' & ');
+}
+
+function arrayOf(type: string): string {
+  return /[|&\s]/.test(type) ? `Array<${type}>` : `${type}[]`;
+}
+
+/**
+ * Map a JSON Schema to a TypeScript type. Object schemas with properties are declared
+ * as named interfaces in the context (named from `nameHint`) and referenced by name.
+ */
+function mapJsonSchemaType(schema: any, context: TypeContext, nameHint: string): string {
+  if (schema === false) return 'never';
+  if (!schema || typeof schema !== 'object') return 'any';
+
+  if (typeof schema.$ref === 'string') {
+    return refType(schema.$ref, context);
+  }
+  if ('const' in schema) {
+    return literalType(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return unionOf(schema.enum.map(literalType));
+  }
+
+  // type: ['string', 'null'] - one member per listed type
+  if (Array.isArray(schema.type)) {
+    return unionOf(schema.type.map((type: string) => mapJsonSchemaType({ ...schema, type }, context, nameHint)));
+  }
+  if (schema.nullable) {
+    const { nullable, ...rest } = schema;
+    return unionOf([mapJsonSchemaType(rest, context, nameHint), 'null']);
+  }
+
+  if (isInterfaceSchema(schema)) {
+    return declareInterface(reserveTypeName(nameHint, context), schema, context);
+  }
+
+  // Own structure and composition keywords apply together, so they intersect
+  const { allOf, anyOf, oneOf, ...own } = schema;
+  const composed = hasComposition(schema);
+  const parts: string[] = [];
+  if (isInterfaceSchema(own)) {
+    parts.push(declareInterface(reserveTypeName(`${nameHint}Base`, context), own, context));
+  } else if (!composed || own.items || own.prefixItems || (own.type && own.type !== 'object')) {
+    parts.push(mapBaseType(own, context, nameHint));
+  }
+  (allOf || []).forEach((member: any, index: number) => {
+    parts.push(mapJsonSchemaType(member, context, `${nameHint}Part${index + 1}`));
+  });
+  const variants = oneOf || anyOf;
+  if (Array.isArray(variants)) {
+    parts.push(unionType(variants, context, nameHint));
+  }
+  return intersectionOf(parts);
+}
+
+function mapBaseType(schema: any, context: TypeContext, nameHint: string): string {
+  const type = schema.type
+    ?? (schema.properties || schema.additionalProperties !== undefined ? 'object' : undefined)
+    ?? (schema.items || schema.prefixItems ? 'array' : undefined);
+
+  switch (type) {
+    case 'string': return 'string';
+    case 'number': return 'number';
+    case 'integer': return 'number';
+    case 'boolean': return 'boolean';
+    case 'null': return 'null';
+    case 'array': return mapArrayType(schema, context, nameHint);
+    case 'object': {
+      const extra = schema.additionalProperties;
+      if (extra && typeof extra === 'object') {
+        return `Record<string, ${mapJsonSchemaType(extra, context, `${nameHint}Value`)}>`;
+      }
+      return 'Record<string, any>';
+    }
+    default: return 'any';
+  }
+}
+
+/**
+ * Arrays and tuples. Tuples (prefixItems, or items as an array) are closed unless
+ * the schema gives a type for the remaining items.
+ */
+function mapArrayType(schema: any, context: TypeContext, nameHint: string): string {
+  const tuple: any[] | undefined = schema.prefixItems || (Array.isArray(schema.items) ? schema.items : undefined);
+  if (!tuple) {
+    return arrayOf(schema.items ? mapJsonSchemaType(schema.items, context, `${nameHint}Item`) : 'any');
+  }
+
+  const minItems = schema.minItems ?? tuple.length;
+  const elements = tuple.map((item, index) => {
+    const type = mapJsonSchemaType(item, context, `${nameHint}Item${index + 1}`);
+    return index < minItems ? type : `${type}?`;
+  });
+  const rest = schema.prefixItems ? schema.items : schema.additionalItems;
+  if (rest && typeof rest === 'object') {
+    elements.push(`...${arrayOf(mapJsonSchemaType(rest, context, `${nameHint}Rest`))}`);
+  }
+  return `[${elements.join(', ')}]`;
+}
+
+/**
+ * oneOf/anyOf members. If every member pins the same property to a distinct constant
+ * (a discriminator like `type: 'circle'`), members are named after that value.
+ */
+function unionType(variants: any[], context: TypeContext, nameHint: string): string {
+  const resolved = variants.map(variant => (
+    typeof variant?.$ref === 'string' ? resolveSchemaRef(variant.$ref, context.root) || variant : variant
+  ));
+  const discriminator = findDiscriminator(resolved);
+
+  return unionOf(variants.map((variant, index) => {
+    const tag = discriminator ? discriminatorValue(resolved[index], discriminator) : undefined;
+    const name = tag !== undefined ? `${nameHint}${pascalCase(String(tag))}` : `${nameHint}Option${index + 1}`;
+    return mapJsonSchemaType(variant, context, name);
+  }));
+}
+
+function discriminatorValue(schema: any, property: string): any {
+  const propertySchema = schema?.properties?.[property];
+  if (propertySchema && 'const' in propertySchema) return propertySchema.const;
+  if (Array.isArray(propertySchema?.enum) && propertySchema.enum.length === 1) return propertySchema.enum[0];
+  return undefined;
+}
+
+function findDiscriminator(variants: any[]): string | undefined {
+  if (variants.length < 2) return undefined;
+
+  const candidates = Object.keys(variants[0]?.properties || {});
+  return candidates.find(property => {
+    const values = variants.map(variant => discriminatorValue(variant, property));
+    return values.every(value => value !== undefined) && new Set(values.map(value => JSON.stringify(value))).size === values.length;
+  });
+}
+
+/**
+ * Named type for a $ref (#/$defs/Name), declared once and shared by every use
+ */
+function refType(ref: string, context: TypeContext): string {
+  const existing = context.refs.get(ref);
+  if (existing) return existing;
+
+  const target = resolveSchemaRef(ref, context.root);
+  if (target === undefined) return 'any';
+
+  const segment = ref === '#' ? 'Self' : ref.split('/').pop()!;
+  const name = reserveTypeName(`${context.prefix}${pascalCase(segment)}`, context);
+  // Registered before the body is built so recursive schemas refer back to it
+  context.refs.set(ref, name);
+
+  if (isInterfaceSchema(target)) {
+    return declareInterface(name, target, context);
+  }
+  const slot = context.declarations.push('') - 1;
+  context.declarations[slot] = `${schemaDoc(target)}export type ${name} = ${mapJsonSchemaType(target, context, `${name}Value`)};`;
+  return name;
+}
+
+function declareInterface(name: string, schema: any, context: TypeContext, fallbackDoc?: string): string {
+  // Reserve the slot first so the interface is emitted ahead of the types it uses
+  const slot = context.declarations.push('') - 1;
+  const required = new Set<string>(schema.required || []);
+
+  const members = Object.entries<any>(schema.properties).map(([key, propertySchema]) => {
+    const optional = !required.has(key) || (context.defaultsOptional && propertySchema?.default !== undefined);
+    const type = mapJsonSchemaType(propertySchema, context, `${name}${pascalCase(key)}`);
+    return `${schemaDoc(propertySchema, '  ')}  ${propertyKey(key)}${optional ? '?' : ''}: ${type};`;
+  });
+
+  // Extra keys are allowed unless additionalProperties is false; their types can't be narrower than any
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    members.push('  [key: string]: any;');
+  }
+
+  context.declarations[slot] = `${schemaDoc(schema, '', fallbackDoc)}export interface ${name} {
+${members.join('\n')}
+}`;
+  return name;
+}
+
+/**
+ * Top-level named type for a schema: an interface when it is a plain object, otherwise an alias
+ */
+function declareSchemaType(schema: any, context: TypeContext, name: string, doc: string): string {
+  if (isInterfaceSchema(schema)) {
+    return declareInterface(reserveTypeName(name, context), schema, context, doc);
+  }
+
+  const reserved = reserveTypeName(name, context);
+  const slot = context.declarations.push('') - 1;
+  context.declarations[slot] = `${schemaDoc(schema, '', doc)}export type ${reserved} = ${mapJsonSchemaType(schema, context, `${reserved}Value`)};`;
+  return reserved;
+}
+
+function generateTypesFile(serverName: string, runtimeImport: string = '../.runtime-executor.js'): string {
+  return `/**
+ * Shared types for ${commentSafe(serverName)} wrappers
+ */
+
+/**
+ * Progress reported by the server while a call is running
+ */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-call options accepted by every wrapper function
+ */
+export interface CallOptions {
+  /** Called for each progress notification the server sends for this call */
+  onProgress?: (update: ProgressUpdate) => void;
+  /** Aborting rejects the call and sends notifications/cancelled to the server */
+  signal?: AbortSignal;
+  /** Timeout in ms for this call only (0 disables), overriding configured limits */
+  timeout?: number;
+  /** Safe to re-send if the server restarts mid-call (defaults from the tool's annotations) */
+  idempotent?: boolean;
+  /** Schema the response is checked against (set by wrappers from metadata.outputSchema) */
+  outputSchema?: any;
+  /** Check the response against outputSchema for this call only: off, warn or strict */
+  validateOutput?: 'off' | 'warn' | 'strict';
+  /** Schema the arguments are checked against before sending (set by wrappers from metadata.inputSchema) */
+  inputSchema?: any;
+  /** Set to false to skip the argument check for this call */
+  validateInput?: boolean;
+}
+
+/**
+ * One schema violation reported by MCPValidationError (path like $.rows[0].id)
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * One part of a resource read: text, or base64 blob for binary data
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Image or audio returned by a tool - saved under .claude/temp/mcp-output/
+ */
+export interface ContentFile {
+  type: 'image' | 'audio';
+  path: string;
+  mimeType: string;
+  bytes: number;
+}
+
+/**
+ * Resource embedded in a tool result (binary contents saved to \`path\`)
+ */
+export interface EmbeddedResource {
+  type: 'resource';
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  path?: string;
+  bytes?: number;
+}
+
+/**
+ * Resource the tool pointed to without inlining it
+ */
+export interface ResourceLink {
+  type: 'resource_link';
+  uri: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
 }
 
 /**
- * Tool metadata for progressive discovery
+ * Rendered prompt, ready to hand to a model
  */
-export const metadata = {
-  name: '${tool.name}',
-  category: '${category}',
-  description: '${description}',
-  parameters: ${JSON.stringify(params.map(p => p.name), null, 2)},
-  inputSchema: ${JSON.stringify(tool.inputSchema, null, 2)},
-};
-`;
-  }
+export interface PromptResult {
+  description?: string;
+  messages: { role: 'user' | 'assistant'; content: any }[];
 }
 
-function mapJsonSchemaType(schema: any): string {
-  // If passed a simple string (backward compatibility)
-  if (typeof schema === 'string') {
-    switch (schema) {
-      case 'string': return 'string';
-      case 'number': return 'number';
-      case 'integer': return 'number';
-      case 'boolean': return 'boolean';
-      case 'array': return 'any[]';
-      case 'object': return 'Record<string, any>';
-      default: return 'any';
-    }
-  }
-
-  // Handle null/undefined
-  if (!schema || typeof schema !== 'object') {
-    return 'any';
-  }
-
-  // Handle enums - create union types
-  if (schema.enum && Array.isArray(schema.enum)) {
-    return schema.enum.map((v: any) => JSON.stringify(v)).join(' | ');
-  }
-
-  // Handle unions (oneOf, anyOf)
-  if (schema.oneOf && Array.isArray(schema.oneOf)) {
-    return schema.oneOf.map((s: any) => mapJsonSchemaType(s)).join(' | ');
-  }
-  if (schema.anyOf && Array.isArray(schema.anyOf)) {
-    return schema.anyOf.map((s: any) => mapJsonSchemaType(s)).join(' | ');
-  }
-
-  // Handle arrays with item types
-  if (schema.type === 'array') {
-    if (schema.items) {
-      return `${mapJsonSchemaType(schema.items)}[]`;
-    }
-    return 'any[]';
-  }
+/**
+ * Suggested argument values from completion/complete
+ */
+export interface CompletionResult {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
 
-  // Handle objects with additional properties
-  if (schema.type === 'object') {
-    if (schema.properties && Object.keys(schema.properties).length > 0) {
-      // For objects with defined properties, we could generate an inline type
-      // but for simplicity, we'll use Record for now
-      return 'Record<string, any>';
-    }
-    if (schema.additionalProperties) {
-      const valueType = mapJsonSchemaType(schema.additionalProperties);
-      return `Record<string, ${valueType}>`;
-    }
-    return 'Record<string, any>';
-  }
+/**
+ * Errors thrown by wrapper calls - all extend MCPError (code, data, toolName, args)
+ */
+export {
+  MCPError,
+  MCPProtocolError,
+  MCPToolError,
+  MCPTimeoutError,
+  MCPTransportClosedError,
+  MCPValidationError,
+} from '${runtimeImport}';
 
-  // Handle basic types
-  switch (schema.type) {
-    case 'string': return 'string';
-    case 'number': return 'number';
-    case 'integer': return 'number';
-    case 'boolean': return 'boolean';
-    case 'null': return 'null';
-    default: return 'any';
-  }
+/**
+ * Calling wrappers without the executor CLI: \`const disconnect = connect();\` first,
+ * \`await disconnect()\` when done. Servers come from .mcp.json or \`connect({ servers })\`.
+ */
+export { connect } from '${runtimeImport}';
+export type { ConnectOptions } from '${runtimeImport}';
+`;
 }
 
-async function generateIndexFile(category: string, toolNames: string[]): Promise<string> {
+async function generateIndexFile(category: string, toolNames: string[], noun: string = 'tools'): Promise<string> {
   const exports = toolNames.map(name => `export * from './${name}.js';`).join('\n');
+  const title = category.charAt(0).toUpperCase() + category.slice(1);
   return `/**
- * ${category.charAt(0).toUpperCase() + category.slice(1)} tools
+ * ${category === noun ? title : `${title} ${noun}`}
  *
- * Available tools:
+ * Available ${noun}:
 ${toolNames.map(name => ` * - ${name}`).join('\n')}
  */
 
 ${exports}
+
+/**
+ * Directory metadata - shadows the per-file \`metadata\` exports, which would
+ * otherwise be ambiguous here. Import a file directly for its own metadata.
+ */
+export const metadata = ${JSON.stringify({ category, [noun]: toolNames }, null, 2)};
 `;
 }
 
 async function generateRootIndex(
   categories: Record<string, MCPTool[]>,
-  serverName: string
+  serverName: string,
+  serverType: 'typescript-local' | 'protocol' = 'protocol',
+  server?: ExtractedServer
 ): Promise<string> {
   const categoryNames = Object.keys(categories);
   const totalTools = Object.values(categories).flat().length;
+  const resourceCount = (server?.resources.length || 0) + (server?.resourceTemplates.length || 0);
+  const promptCount = server?.prompts.length || 0;
+  const serverMetadata = {
+    name: server?.serverInfo?.name,
+    version: server?.serverInfo?.version,
+    protocolVersion: server?.protocolVersion,
+    capabilities: server?.capabilities || {},
+  };
 
   return `/**
- * ${serverName} Code Execution API
+ * ${commentSafe(serverName)} Code Execution API
  * Generated via MCP protocol (universal approach)
  *
+ * Server: ${commentSafe(`${serverMetadata.name || 'unknown'} ${serverMetadata.version || ''}`)}
+ * Protocol version: ${commentSafe(serverMetadata.protocolVersion || 'unknown')}
+ * Capabilities: ${describeCapabilities(serverMetadata.capabilities)}
+ *
  * Progressive tool discovery filesystem structure
  *
  * Categories:
 ${categoryNames.map(cat => ` * - ${cat}/ (${categories[cat].length} tools)`).join('\n')}
  *
  * Total tools: ${totalTools}
- *
+${resourceCount > 0 && serverType === 'protocol' ? ` *\n * Resources: resources/ (${resourceCount} readable, see resources/index.ts)\n` : ''}${promptCount > 0 && serverType === 'protocol' ? ` *\n * Prompts: prompts/ (${promptCount} prompts, see prompts/index.ts)\n` : ''} *
  * Usage:
  * 1. Explore categories by reading this file
  * 2. Navigate to a category directory (e.g., ./navigation/)
@@ -721,20 +1137,225 @@ ${categoryNames.map(cat => ` * - ${cat}/ (${categories[cat].length} tools)`).joi
  */
 
 ${categoryNames.map(cat => `export * as ${cat} from './${cat}/index.js';`).join('\n')}
+${resourceCount > 0 && serverType === 'protocol' ? `export * as resources from './resources/index.js';\n` : ''}${promptCount > 0 && serverType === 'protocol' ? `export * as prompts from './prompts/index.js';\n` : ''}${serverType === 'protocol' ? `export type { CallOptions, ProgressUpdate, ContentFile, EmbeddedResource, ResourceLink, ResourceContents, PromptResult, CompletionResult, ValidationIssue } from './types.js';\nexport { MCPError, MCPProtocolError, MCPToolError, MCPTimeoutError, MCPTransportClosedError, MCPValidationError, connect } from './types.js';\nexport type { ConnectOptions } from './types.js';\n` : ''}
+export const metadata = ${JSON.stringify({ server: serverMetadata, totalTools, totalResources: resourceCount, totalPrompts: promptCount }, null, 2)};
 `;
 }
 
+/**
+ * What happens to generated wrappers that fail the post-generation type-check:
+ * move them to .quarantine/ and carry on, fail generation, or skip the check
+ */
+export type VerifyMode = 'quarantine' | 'strict' | 'off';
+
+/**
+ * Wrapper files to emit: TypeScript sources run through tsx, or ESM JavaScript with
+ * .d.ts declarations and a package.json, runnable by plain node and publishable as a package
+ */
+export type OutputFormat = 'ts' | 'js';
+
+/**
+ * A wrapper file that failed the type-check and was moved to .quarantine/
+ */
+export interface QuarantinedWrapper {
+  /** Directory it was generated in - a tool category, 'resources' or 'prompts' */
+  category: string;
+  functionName: string;
+  /** The tool, resource or prompt name on the server */
+  name: string;
+  /** Compiler messages, `file:line:column - TSxxxx: message` */
+  diagnostics: string[];
+}
+
+const QUARANTINE_DIR = '.quarantine';
+
+/** Runtime executor copy inside a compiled (--output js) wrapper package, so it is self-contained */
+const PACKAGE_RUNTIME = 'runtime-executor.ts';
+
+/**
+ * The .ts files of a wrapper tree, leaving out quarantined wrappers
+ */
+async function listWrapperSources(apiDir: string): Promise<string[]> {
+  const entries = await fs.readdir(apiDir, { recursive: true });
+  return entries
+    .filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts') && !file.split(path.sep).includes(QUARANTINE_DIR))
+    .map(file => path.join(apiDir, file));
+}
+
+/**
+ * Type-check every .ts file of a wrapper tree with the TypeScript compiler API.
+ * Returns diagnostics per file (relative to apiDir), or null when the compiler
+ * isn't installed. Problems in files outside the tree (the runtime executor,
+ * libraries) are not reported.
+ */
+async function typeCheckWrappers(apiDir: string): Promise<Map<string, string[]> | null> {
+  let ts: typeof import('typescript');
+  try {
+    ts = (await import('typescript')).default;
+  } catch (e) {
+    return null;
+  }
+
+  const files = (await listWrapperSources(apiDir)).filter(file => path.basename(file) !== PACKAGE_RUNTIME);
+
+  // Wrappers only need the language and AbortSignal - no @types from the project
+  const program = ts.createProgram(files, {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+  });
+
+  const diagnostics = new Map<string, string[]>();
+  for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+    if (!diagnostic.file) continue;
+    const file = path.relative(apiDir, diagnostic.file.fileName);
+    if (file.startsWith('..') || path.isAbsolute(file) || file === PACKAGE_RUNTIME) continue;
+
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    const messages = diagnostics.get(file) || [];
+    messages.push(`${file}:${line + 1}:${character + 1} - TS${diagnostic.code}: ${message}`);
+    diagnostics.set(file, messages);
+  }
+  return diagnostics;
+}
+
+/**
+ * Compile a wrapper tree in place to ESM .js files with .d.ts declarations, then
+ * remove the .ts sources. Quarantined wrappers stay as they are.
+ */
+async function compileWrappers(apiDir: string): Promise<void> {
+  let ts: typeof import('typescript');
+  try {
+    ts = (await import('typescript')).default;
+  } catch (e) {
+    throw new Error('--output js needs the typescript package to compile the wrappers: npm install typescript');
+  }
+
+  const files = await listWrapperSources(apiDir);
+  // @types from the project are picked up when present, for the runtime executor's declarations
+  const program = ts.createProgram(files, {
+    declaration: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  });
+
+  const { emitSkipped, diagnostics } = program.emit();
+  if (emitSkipped) {
+    const messages = diagnostics.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    throw new Error(`Could not compile wrappers in ${apiDir}:\n${messages.map(m => `  ${m}`).join('\n')}`);
+  }
+
+  for (const file of files) {
+    await fs.rm(file);
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same schema serializes identically
+ * whatever key order the server sent it in
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value).sort().filter(key => (value as any)[key] !== undefined);
+    return `{${entries.map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short hash of everything the wrappers are generated from, so a schema change on an
+ * unchanged server version still produces a new package version
+ */
+function schemaHash(server: ExtractedServer): string {
+  const byName = <T extends { name: string }>(a: T, b: T) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  const surface = {
+    tools: [...server.tools].sort(byName).map(t => [t.name, t.inputSchema, t.outputSchema ?? null]),
+    resources: server.resources.map(r => r.uri).sort(),
+    resourceTemplates: server.resourceTemplates.map(t => t.uriTemplate).sort(),
+    prompts: [...server.prompts].sort(byName).map(p => [p.name, p.arguments ?? []]),
+  };
+  return createHash('sha256').update(canonicalJson(surface)).digest('hex').slice(0, 8);
+}
+
+/**
+ * package.json for a compiled wrapper tree. Unless a version is given, it is the server's own
+ * version (when that is semver) plus a schema hash, e.g. 1.2.3-schema-0a1b2c3d, so consumers
+ * can pin the API they were written against and a regenerated package never reuses a version.
+ */
+function generatePackageManifest(serverName: string, server: ExtractedServer, packageVersion?: string): string {
+  const slug = serverName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[._-]+|-+$/g, '') || 'server';
+  const hash = schemaHash(server);
+  const serverVersion = server.serverInfo?.version && /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/.test(server.serverInfo.version)
+    ? server.serverInfo.version
+    : '0.0.0';
+  const version = packageVersion || `${serverVersion}${serverVersion.includes('-') ? '.' : '-'}schema-${hash}`;
+
+  return JSON.stringify({
+    name: `mcp-wrapper-${slug}`,
+    version,
+    description: `Typed wrappers for the ${serverName} MCP server (generated by mcp-code-wrapper)`,
+    type: 'module',
+    main: './index.js',
+    types: './index.d.ts',
+    exports: {
+      '.': { types: './index.d.ts', default: './index.js' },
+      './*.js': { types: './*.d.ts', default: './*.js' },
+      './*': { types: './*.d.ts', default: './*.js' },
+      './package.json': './package.json',
+    },
+    mcpWrapper: {
+      server: serverName,
+      serverInfo: server.serverInfo,
+      protocolVersion: server.protocolVersion,
+      schemaHash: hash,
+    },
+  }, null, 2) + '\n';
+}
+
+/**
+ * What generateFilesystem wrote for one server
+ */
+export interface GeneratedWrapper {
+  serverName: string;
+  serverType: 'typescript-local' | 'protocol';
+  outputDir: string;
+  server: Omit<ExtractedServer, 'tools'>;
+  /** Function names per category directory (resource readers under 'resources', prompts under 'prompts') */
+  categories: Record<string, string[]>;
+  toolCount: number;
+  /** Wrappers left out because they failed the type-check (see VerifyMode) */
+  quarantined: QuarantinedWrapper[];
+  /** 'js' when the tree was compiled to .js + .d.ts with a package.json (see OutputFormat) */
+  output: OutputFormat;
+}
 
-async function generateFilesystem(
-  command: string,
-  args: string[] = [],
+/**
+ * Generate the progressive-discovery wrapper tree for one MCP server.
+ * Returns null when the server exposes no tools, resources or prompts.
+ * Protocol wrappers are type-checked afterwards - see VerifyMode - and can be
+ * compiled to a JavaScript package - see OutputFormat.
+ */
+export async function generateFilesystem(
+  server: MCPServerConfig,
   outputDir: string = 'api-universal',
   serverName: string = 'MCP',
-  env: Record<string, string> = {},
   skipConfig: boolean = false,
   serverType: 'typescript-local' | 'protocol' = 'protocol',
-  projectPath: string = process.cwd()
-) {
+  projectPath: string = process.cwd(),
+  verify: VerifyMode = 'quarantine',
+  output: OutputFormat = 'ts',
+  packageVersion?: string
+): Promise<GeneratedWrapper | null> {
   // Handle both relative and absolute paths
   const apiDir = path.isAbsolute(outputDir) ? outputDir : path.join(process.cwd(), outputDir);
 
@@ -745,12 +1366,14 @@ async function generateFilesystem(
   console.log('🔬 Universal MCP Filesystem Generator\n');
   console.log('=' .repeat(70) + '\n');
 
-  // Extract tools via MCP protocol
-  const tools = await extractToolsFromMCP(command, args);
+  // Extract server details and tools via MCP protocol
+  const extracted = await extractToolsFromMCP(server);
+  const tools = extracted.tools;
+  const readables = [...extracted.resources, ...extracted.resourceTemplates];
 
-  if (tools.length === 0) {
-    console.error('❌ No tools found. Check your MCP server configuration.');
-    return;
+  if (tools.length === 0 && readables.length === 0 && extracted.prompts.length === 0) {
+    console.error('❌ No tools, resources or prompts found. Check your MCP server configuration.');
+    return null;
   }
 
   // Categorize tools
@@ -765,6 +1388,10 @@ async function generateFilesystem(
   console.log('Generating filesystem structure...\n');
 
   // Generate category directories and tool files
+  const identifiers = assignToolIdentifiers(tools);
+  const generatedCategories: Record<string, string[]> = {};
+  // Wrapper file (relative to apiDir) -> what it wraps, for reporting type-check failures
+  const wrapperSources = new Map<string, { category: string; functionName: string; source: MCPTool | MCPResource | MCPResourceTemplate | MCPPrompt }>();
   for (const [category, categoryTools] of Object.entries(categories)) {
     const categoryDir = path.join(apiDir, category);
     await fs.mkdir(categoryDir, { recursive: true });
@@ -773,11 +1400,13 @@ async function generateFilesystem(
 
     const toolNames: string[] = [];
     for (const tool of categoryTools) {
-      const toolFile = path.join(categoryDir, `${tool.name}.ts`);
-      const content = await generateToolFile(category, tool, serverName, serverType, projectPath);
+      const identifier = identifiers.get(tool.name)!;
+      const toolFile = path.join(categoryDir, `${identifier.functionName}.ts`);
+      const content = await generateToolFile(category, tool, serverName, serverType, projectPath, identifier);
       await fs.writeFile(toolFile, content);
-      toolNames.push(tool.name);
-      console.log(`   ├─ ${tool.name}.ts`);
+      toolNames.push(identifier.functionName);
+      wrapperSources.set(path.join(category, `${identifier.functionName}.ts`), { category, functionName: identifier.functionName, source: tool });
+      console.log(`   ├─ ${identifier.functionName}.ts${identifier.functionName !== tool.name ? ` (${tool.name})` : ''}`);
     }
 
     // Generate category index
@@ -785,11 +1414,98 @@ async function generateFilesystem(
     const indexContent = await generateIndexFile(category, toolNames);
     await fs.writeFile(indexFile, indexContent);
     console.log(`   └─ index.ts\n`);
+    generatedCategories[category] = toolNames;
+  }
+
+  // Every listed tool should have produced exactly one wrapper file
+  const wrappedTools = new Set(Object.values(generatedCategories).flat());
+  if (wrappedTools.size !== tools.length) {
+    console.log(`⚠️  Server listed ${tools.length} tools but ${wrappedTools.size} wrappers were generated\n`);
+  }
+
+  // Resources and resource templates become read_* functions in resources/
+  if (readables.length > 0 && serverType === 'protocol') {
+    const resourcesDir = path.join(apiDir, 'resources');
+    await fs.mkdir(resourcesDir, { recursive: true });
+
+    console.log(`📁 resources/`);
+
+    const subscribe = Boolean(extracted.capabilities.resources?.subscribe);
+    const functionNames: string[] = [];
+    const taken = new Set<string>();
+    const readerNames = readables.map(resource => uniqueFunctionName(resource.name, taken, 'read_'));
+    // watch_* names share the directory's exports; claimed after every reader so they never displace one
+    const watchNames = readables.map((resource, i) =>
+      subscribe && !('uriTemplate' in resource) ? claimName(readerNames[i].replace(/^read_/, 'watch_'), taken) : undefined);
+    for (const [i, resource] of readables.entries()) {
+      const functionName = readerNames[i];
+      await fs.writeFile(
+        path.join(resourcesDir, `${functionName}.ts`),
+        generateResourceFile(functionName, resource, serverName, watchNames[i])
+      );
+      functionNames.push(functionName);
+      wrapperSources.set(path.join('resources', `${functionName}.ts`), { category: 'resources', functionName, source: resource });
+      console.log(`   ├─ ${functionName}.ts`);
+    }
+
+    await fs.writeFile(path.join(resourcesDir, 'index.ts'), await generateIndexFile('resources', functionNames, 'resources'));
+    console.log(`   └─ index.ts\n`);
+    generatedCategories.resources = functionNames;
+  } else if (readables.length > 0) {
+    console.log(`⚠️  Skipping ${readables.length} resources - only supported for protocol servers\n`);
+  }
+
+  // Prompts become functions in prompts/ that return the rendered messages
+  if (extracted.prompts.length > 0 && serverType === 'protocol') {
+    const promptsDir = path.join(apiDir, 'prompts');
+    await fs.mkdir(promptsDir, { recursive: true });
+
+    console.log(`📁 prompts/`);
+
+    const completions = Boolean(extracted.capabilities.completions);
+    const functionNames: string[] = [];
+    const taken = new Set<string>(['index']);
+    const promptNames = extracted.prompts.map(prompt => uniqueFunctionName(prompt.name, taken));
+    // complete_* names share the directory's exports; claimed after every prompt so they never displace one
+    const completeNames = extracted.prompts.map((prompt, i) =>
+      completions && (prompt.arguments || []).length > 0 ? claimName(promptNames[i].replace(/^_?/, 'complete_'), taken) : undefined);
+    for (const [i, prompt] of extracted.prompts.entries()) {
+      const functionName = promptNames[i];
+      await fs.writeFile(
+        path.join(promptsDir, `${functionName}.ts`),
+        generatePromptFile(functionName, prompt, serverName, completeNames[i])
+      );
+      functionNames.push(functionName);
+      wrapperSources.set(path.join('prompts', `${functionName}.ts`), { category: 'prompts', functionName, source: prompt });
+      console.log(`   ├─ ${functionName}.ts`);
+    }
+
+    await fs.writeFile(path.join(promptsDir, 'index.ts'), await generateIndexFile('prompts', functionNames, 'prompts'));
+    console.log(`   └─ index.ts\n`);
+    generatedCategories.prompts = functionNames;
+  } else if (extracted.prompts.length > 0) {
+    console.log(`⚠️  Skipping ${extracted.prompts.length} prompts - only supported for protocol servers\n`);
+  }
+
+  // TypeScript-local wrappers import the server's own build, so only protocol wrappers compile on their own
+  const compile = output === 'js' && serverType === 'protocol';
+  if (output === 'js' && !compile) {
+    console.log(`⚠️  --output js only applies to protocol servers - keeping .ts wrappers\n`);
+  }
+
+  // Shared option types imported by protocol wrappers. A compiled package carries its own runtime copy.
+  if (serverType === 'protocol') {
+    // The package runtime is compiled with the wrappers to emit its .d.ts, so it must be the TypeScript source
+    if (compile && !(await installRuntimeExecutor(apiDir, path.basename(PACKAGE_RUNTIME, '.ts'), true))) {
+      throw new Error(`--output js needs the TypeScript runtime executor (src/runtime-executor.ts), but only the compiled runtime-executor.js is available in this install`);
+    }
+    await fs.writeFile(path.join(apiDir, 'types.ts'), generateTypesFile(serverName, compile ? `./${PACKAGE_RUNTIME.replace(/\.ts$/, '.js')}` : undefined));
+    console.log(`📄 types.ts\n`);
   }
 
   // Generate root index
   const rootIndexFile = path.join(apiDir, 'index.ts');
-  const rootIndexContent = await generateRootIndex(categories, serverName);
+  const rootIndexContent = await generateRootIndex(categories, serverName, serverType, extracted);
   await fs.writeFile(rootIndexFile, rootIndexContent);
   console.log(`📄 index.ts (root)\n`);
 
@@ -797,42 +1513,140 @@ async function generateFilesystem(
 
   // Copy runtime executor to parent .mcp-wrappers directory (not per-server)
   if (!skipConfig) {
-    const executorDest = path.join(path.dirname(apiDir), '.runtime-executor.ts');
-    const packageDir = path.dirname(new URL(import.meta.url).pathname);
-
-    // Try both .js (dist) and .ts (src) extensions
-    const possibleSources = [
-      path.join(packageDir, 'runtime-executor.js'),
-      path.join(packageDir, 'runtime-executor.ts'),
-      path.join(packageDir, '..', 'src', 'runtime-executor.ts'),
-    ];
-
-    let copied = false;
-    for (const source of possibleSources) {
-      try {
-        await fs.copyFile(source, executorDest);
-        console.log(`📄 .runtime-executor.ts (copied to parent dir)\n`);
-        copied = true;
-        break;
-      } catch (e) {
-        // Try next source
-      }
+    const executorFile = await installRuntimeExecutor(path.dirname(apiDir));
+    if (executorFile) {
+      console.log(`📄 ${executorFile} (copied to parent dir)\n`);
+    } else {
+      console.log(`⚠️  Could not copy runtime executor (you may need to copy it manually)\n`);
+    }
+  }
+
+  // Type-check the protocol wrappers so the skill never advertises one that can't be imported.
+  // TypeScript-local wrappers import the server's own build, which is checked by its project.
+  const quarantined: QuarantinedWrapper[] = [];
+  if (verify !== 'off' && serverType === 'protocol') {
+    // types.ts re-exports the error classes from the runtime executor
+    const executorPaths = ['.runtime-executor.ts', '.runtime-executor.js'].map(file => path.join(path.dirname(apiDir), file));
+    if (!(await Promise.all(executorPaths.map(file => fs.stat(file).catch(() => null)))).some(Boolean)) {
+      await installRuntimeExecutor(path.dirname(apiDir));
     }
 
-    if (!copied) {
-      console.log(`⚠️  Could not copy runtime executor (you may need to copy it manually)\n`);
+    console.log('🔎 Type-checking generated wrappers...\n');
+    const diagnostics = await typeCheckWrappers(apiDir);
+
+    if (!diagnostics) {
+      console.log(`⚠️  TypeScript not available - skipped the type-check\n`);
+    } else if (diagnostics.size === 0) {
+      console.log(`✅ All wrappers type-check\n`);
+    } else if (verify === 'strict') {
+      throw new Error(`Generated wrappers for ${serverName} don't type-check:\n${[...diagnostics.values()].flat().map(d => `  ${d}`).join('\n')}`);
+    } else {
+      // Move each broken wrapper aside, then rebuild the indexes that exported it
+      const skipped = new Set<unknown>();
+      for (const [file, messages] of diagnostics) {
+        const wrapper = wrapperSources.get(file);
+        if (!wrapper) continue;
+
+        const target = path.join(apiDir, QUARANTINE_DIR, file);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const content = await fs.readFile(path.join(apiDir, file), 'utf-8');
+        const header = `// Quarantined: this wrapper failed the post-generation type-check\n${messages.map(m => `// ${m.replace(/\n/g, ' ')}`).join('\n')}\n\n`;
+        await fs.writeFile(target, header + content);
+        await fs.rm(path.join(apiDir, file));
+
+        quarantined.push({ category: wrapper.category, functionName: wrapper.functionName, name: wrapper.source.name, diagnostics: messages });
+        skipped.add(wrapper.source);
+        generatedCategories[wrapper.category] = generatedCategories[wrapper.category].filter(name => name !== wrapper.functionName);
+        console.log(`⛔ Quarantined ${file} (${wrapper.source.name}):`);
+        messages.forEach(m => console.log(`   ${m}`));
+        console.log();
+      }
+
+      for (const category of new Set(quarantined.map(q => q.category))) {
+        const noun = category === 'resources' || category === 'prompts' ? category : 'tools';
+        if (generatedCategories[category].length > 0) {
+          await fs.writeFile(path.join(apiDir, category, 'index.ts'), await generateIndexFile(category, generatedCategories[category], noun));
+        } else {
+          await fs.rm(path.join(apiDir, category), { recursive: true, force: true });
+          delete generatedCategories[category];
+        }
+      }
+      const remaining = Object.fromEntries(Object.entries(categories)
+        .map(([category, categoryTools]) => [category, categoryTools.filter(tool => !skipped.has(tool))])
+        .filter(([, categoryTools]) => categoryTools.length > 0));
+      await fs.writeFile(rootIndexFile, await generateRootIndex(remaining, serverName, serverType, {
+        ...extracted,
+        resources: extracted.resources.filter(resource => !skipped.has(resource)),
+        resourceTemplates: extracted.resourceTemplates.filter(template => !skipped.has(template)),
+        prompts: extracted.prompts.filter(prompt => !skipped.has(prompt)),
+      }));
+
+      // Whatever is still broken isn't down to a single wrapper
+      const leftover = await typeCheckWrappers(apiDir);
+      if (leftover && leftover.size > 0) {
+        throw new Error(`Generated wrappers for ${serverName} don't type-check:\n${[...leftover.values()].flat().map(d => `  ${d}`).join('\n')}`);
+      }
+      console.log(`⚠️  ${quarantined.length} wrapper(s) quarantined in ${QUARANTINE_DIR}/ - the rest type-check\n`);
     }
   }
 
+  const { tools: _tools, ...serverDetails } = extracted;
+  if (compile) {
+    console.log('🛠️  Compiling wrappers to JavaScript...\n');
+    await compileWrappers(apiDir);
+    await fs.writeFile(path.join(apiDir, 'package.json'), generatePackageManifest(serverName, extracted, packageVersion));
+    console.log(`📦 package.json - run scripts with: node ${path.join(path.relative(projectPath, apiDir), 'runtime-executor.js')} ${serverName} <your-code.js>\n`);
+  }
+
   console.log('=' .repeat(70) + '\n');
+  const toolCount = tools.length - quarantined.filter(q => q.category !== 'resources' && q.category !== 'prompts').length;
   console.log('✅ Universal filesystem structure generated!');
-  console.log(`📊 Total: ${Object.keys(categories).length} categories, ${tools.length} tools`);
+  console.log(`📊 Total: ${Object.keys(generatedCategories).filter(c => c !== 'resources' && c !== 'prompts').length} categories, ${toolCount} tools`
+    + (generatedCategories.resources ? `, ${generatedCategories.resources.length} resources` : '')
+    + (generatedCategories.prompts ? `, ${generatedCategories.prompts.length} prompts` : ''));
   console.log(`📁 Output: ${apiDir}/`);
 
   console.log('\n🌍 This approach works with ANY MCP server!');
+
+  return {
+    serverName,
+    serverType,
+    outputDir: apiDir,
+    server: serverDetails,
+    categories: generatedCategories,
+    toolCount,
+    quarantined,
+    output: compile ? 'js' : 'ts',
+  };
+}
+
+/**
+ * Copy the runtime executor into a .mcp-wrappers directory (or a compiled wrapper package).
+ * Prefers the TypeScript source (src run, or src shipped next to dist) over compiled JS, and keeps
+ * the extension of the source it found. Returns the file name written, or null if nothing was copied.
+ */
+async function installRuntimeExecutor(wrappersDir: string, baseName: string = '.runtime-executor', typescriptOnly: boolean = false): Promise<string | null> {
+  const packageDir = path.dirname(new URL(import.meta.url).pathname);
+
+  const possibleSources = [
+    path.join(packageDir, 'runtime-executor.ts'),
+    path.join(packageDir, '..', 'src', 'runtime-executor.ts'),
+    ...(typescriptOnly ? [] : [path.join(packageDir, 'runtime-executor.js')]),
+  ];
+
+  for (const source of possibleSources) {
+    const fileName = baseName + path.extname(source);
+    try {
+      await fs.copyFile(source, path.join(wrappersDir, fileName));
+      return fileName;
+    } catch (e) {
+      // Try next source
+    }
+  }
+  return null;
 }
 
-async function loadMCPConfig(mcpJsonPath: string, serverName: string): Promise<{ command: string; args: string[]; env: Record<string, string> }> {
+async function loadMCPConfig(mcpJsonPath: string, serverName: string): Promise<MCPServerConfig> {
   const content = await fs.readFile(mcpJsonPath, 'utf-8');
   const config = JSON.parse(content);
 
@@ -842,9 +1656,13 @@ async function loadMCPConfig(mcpJsonPath: string, serverName: string): Promise<{
   }
 
   return {
+    type: serverConfig.type,
     command: serverConfig.command,
     args: serverConfig.args || [],
-    env: serverConfig.env || {}
+    env: serverConfig.env || {},
+    url: serverConfig.url,
+    headers: serverConfig.headers || {},
+    timeout: serverConfig.timeout
   };
 }
 
@@ -901,7 +1719,7 @@ async function discoverGlobalMCPConfig(): Promise<string | null> {
 async function detectServerType(
   projectPath: string,
   serverName: string,
-  serverConfig: { command: string; args: string[] }
+  serverConfig: MCPServerConfig
 ): Promise<'typescript-local' | 'protocol'> {
   // Check if server points to a local .mcp-server directory
   const args = serverConfig.args || [];
@@ -967,13 +1785,41 @@ async function selectServers(servers: string[]): Promise<string[]> {
     .map(i => servers[i]);
 }
 
-async function generateAllFromProject(
+/**
+ * Result of generateAllFromProject, one entry per processed server
+ */
+export interface ProjectGenerationResult {
+  mcpJsonPath: string;
+  servers: Array<{
+    serverName: string;
+    /** Wrapper directory name - shared by duplicate servers */
+    wrapperName: string;
+    serverType: 'typescript-local' | 'protocol';
+    outputDir: string;
+    toolCount: number;
+    server: Omit<ExtractedServer, 'tools'>;
+    skillDir?: string;
+    /** Wrappers that failed the type-check - left out of the wrapper tree and the skill */
+    quarantined: QuarantinedWrapper[];
+    /** 'js' when the wrapper was compiled to a JavaScript package */
+    output: OutputFormat;
+  }>;
+}
+
+/**
+ * Generate wrappers (and optionally Skills) for the servers in a project's .mcp.json.
+ * Returns null when nothing was generated (unknown servers or none selected).
+ */
+export async function generateAllFromProject(
   projectPath: string,
   createSkills: boolean = false,
   disableMCPs: boolean = true,
   interactive: boolean = false,
-  specifiedServers?: string[]
-) {
+  specifiedServers?: string[],
+  verify: VerifyMode = 'quarantine',
+  output: OutputFormat = 'ts',
+  packageVersion?: string
+): Promise<ProjectGenerationResult | null> {
   console.log(`\n🔍 Discovering MCP servers in ${projectPath}\n`);
 
   const mcpJsonPath = await discoverMCPConfig(projectPath);
@@ -998,7 +1844,7 @@ async function generateAllFromProject(
       invalidServers.forEach(s => console.log(`   - ${s}`));
       console.log(`\nAvailable servers:`);
       allServers.forEach(s => console.log(`   - ${s}`));
-      return;
+      return null;
     }
     servers = specifiedServers;
   } else if (interactive) {
@@ -1011,7 +1857,7 @@ async function generateAllFromProject(
 
   if (servers.length === 0) {
     console.log('❌ No servers selected. Exiting.');
-    return;
+    return null;
   }
 
   console.log(`\n📦 Generating wrappers for ${servers.length} MCP server(s):\n`);
@@ -1021,7 +1867,8 @@ async function generateAllFromProject(
   // Phase 1: Extract tools from all servers and detect server types
   console.log(`🔬 Phase 1: Extracting tools from all MCP servers...\n`);
   const serverTools = new Map<string, MCPTool[]>();
-  const serverConfigs = new Map<string, { command: string; args: string[]; env: Record<string, string> }>();
+  const serverDetails = new Map<string, ExtractedServer>();
+  const serverConfigs = new Map<string, MCPServerConfig>();
   const serverTypes = new Map<string, 'typescript-local' | 'protocol'>();
 
   for (const serverName of servers) {
@@ -1034,10 +1881,12 @@ async function generateAllFromProject(
 
     const cwd = process.cwd();
     process.chdir(projectPath);
-    const tools = await extractToolsFromMCP(serverConfig.command, serverConfig.args);
+    const extracted = await extractToolsFromMCP(serverConfig);
     process.chdir(cwd);
 
+    const tools = extracted.tools;
     serverTools.set(serverName, tools);
+    serverDetails.set(serverName, extracted);
     const typeLabel = serverType === 'typescript-local' ? '🔷 TypeScript' : '🔌 Protocol';
     console.log(`   ✅ ${serverName}: ${tools.length} tools (${typeLabel})`);
   }
@@ -1058,9 +1907,22 @@ async function generateAllFromProject(
     console.log(`   No duplicates detected.\n`);
   }
 
+  // Ensure .mcp-wrappers directory exists
+  const wrappersDir = path.join(projectPath, '.mcp-wrappers');
+  await fs.mkdir(wrappersDir, { recursive: true });
+
+  // Write runtime executor next to the wrappers - their type-check resolves types.ts against it
+  const executorFile = await installRuntimeExecutor(wrappersDir);
+  if (executorFile) {
+    console.log(`📄 Created ${executorFile} in .mcp-wrappers/\n`);
+  } else {
+    console.log(`⚠️  Could not copy runtime executor (you may need to copy it manually)\n`);
+  }
+
   // Phase 3: Generate wrappers (deduplicated)
   console.log(`🔧 Phase 3: Generating wrappers...\n`);
-  const generatedWrappers = new Set<string>();
+  const generatedWrappers = new Map<string, { quarantined: QuarantinedWrapper[]; output: OutputFormat }>();
+  const results: ProjectGenerationResult['servers'] = [];
 
   for (const serverName of servers) {
     console.log(`\n${'='.repeat(70)}`);
@@ -1083,33 +1945,50 @@ async function generateAllFromProject(
       const cwd = process.cwd();
       process.chdir(projectPath);
 
-      await generateFilesystem(
-        serverConfig.command,
-        serverConfig.args,
-        outputDir,
-        wrapperName,
-        serverConfig.env,
-        true, // Skip config saving, we use .mcp.json directly
-        serverType,
-        projectPath
-      );
-
-      process.chdir(cwd);
-      generatedWrappers.add(wrapperName);
+      try {
+        const generated = await generateFilesystem(
+          serverConfig,
+          outputDir,
+          wrapperName,
+          true, // Skip config saving, we use .mcp.json directly
+          serverType,
+          projectPath,
+          verify,
+          output,
+          packageVersion
+        );
+        generatedWrappers.set(wrapperName, { quarantined: generated?.quarantined || [], output: generated?.output || 'ts' });
+      } finally {
+        process.chdir(cwd);
+      }
     } else {
       console.log(`   ♻️  Reusing shared wrapper: ${wrapperName}/`);
     }
 
+    // Quarantined wrappers don't exist in the tree, so the skill mustn't mention them
+    const { quarantined, output: wrapperOutput } = generatedWrappers.get(wrapperName)!;
+    const quarantinedTools = new Set(quarantined.filter(q => q.category !== 'resources' && q.category !== 'prompts').map(q => q.name));
+    const availableTools = tools.filter(tool => !quarantinedTools.has(tool.name));
+
     if (createSkills) {
       console.log(`\n🎯 Creating Claude Code Skill wrapper...`);
       // Each server gets its own Skill (with unique description), but may reference shared wrapper
-      await generateSkillWrapper(projectPath, serverName, outputDir, tools, serverConfig.env, serverType);
+      await generateSkillWrapper(projectPath, serverName, outputDir, availableTools, serverConfig.env || {}, serverType, serverDetails.get(serverName), quarantined, wrapperOutput);
     }
-  }
 
-  // Ensure .mcp-wrappers directory exists
-  const wrappersDir = path.join(projectPath, '.mcp-wrappers');
-  await fs.mkdir(wrappersDir, { recursive: true });
+    const { tools: _tools, ...details } = serverDetails.get(serverName)!;
+    results.push({
+      serverName,
+      wrapperName,
+      serverType,
+      outputDir,
+      toolCount: availableTools.length,
+      server: details,
+      skillDir: createSkills ? path.join(projectPath, '.claude', 'skills', `mcp-${serverName}`) : undefined,
+      quarantined,
+      output: wrapperOutput,
+    });
+  }
 
   // Save server-to-wrapper mapping
   if (serverToWrapper.size > 0) {
@@ -1122,14 +2001,13 @@ async function generateAllFromProject(
     console.log(`\n💾 Saved server mapping: .mcp-wrappers/.mcp-server-mapping.json`);
   }
 
-  // Write runtime executor from embedded template
-  const executorDest = path.join(wrappersDir, '.runtime-executor.ts');
-  await fs.writeFile(executorDest, RUNTIME_EXECUTOR_TEMPLATE);
-  console.log(`\n📄 Created .runtime-executor.ts in .mcp-wrappers/`);
-
   console.log(`\n${'='.repeat(70)}`);
   console.log(`✅ Generated wrappers for ${servers.length} MCP servers`);
   console.log(`📁 Output: ${projectPath}/.mcp-wrappers/`);
+  const quarantineCount = [...generatedWrappers.values()].flatMap(wrapper => wrapper.quarantined).length;
+  if (quarantineCount > 0) {
+    console.log(`⚠️  ${quarantineCount} wrapper(s) failed the type-check and were quarantined (see .quarantine/ in each wrapper)`);
+  }
 
   // Update .gitignore
   await updateGitignore(projectPath);
@@ -1145,6 +2023,8 @@ async function generateAllFromProject(
   printRestartMessage();
 
   console.log('='.repeat(70));
+
+  return { mcpJsonPath, servers: results };
 }
 
 async function updateGitignore(projectPath: string) {
@@ -1157,7 +2037,8 @@ async function updateGitignore(projectPath: string) {
     // No .gitignore exists, create one
   }
 
-  const entries = ['.mcp-wrappers/', 'mcp-config.json'];
+  // mcp-output holds screenshots and other binary tool results
+  const entries = ['.mcp-wrappers/', 'mcp-config.json', '.claude/temp/mcp-output/'];
   let updated = false;
 
   for (const entry of entries) {
@@ -1169,7 +2050,7 @@ async function updateGitignore(projectPath: string) {
 
   if (updated) {
     await fs.writeFile(gitignorePath, gitignoreContent.trim() + '\n');
-    console.log(`📝 Updated .gitignore (added .mcp-wrappers/ and mcp-config.json)`);
+    console.log(`📝 Updated .gitignore (added ${entries.join(', ')})`);
   }
 }
 
@@ -1219,9 +2100,9 @@ async function disableMCPServers(mcpJsonPath: string, serverNamesToDisable: stri
 }
 
 /**
- * Restore project to original state by removing wrappers and re-enabling MCPs
+ * Undo generation: remove wrappers and Skills and re-enable the project's MCP servers
  */
-async function restoreProject(projectPath: string) {
+export async function restoreProject(projectPath: string): Promise<void> {
   console.log(`\n🔄 Restoring project: ${projectPath}\n`);
 
   // Remove .mcp-wrappers directory
@@ -1392,11 +2273,11 @@ function extractSafeDbContext(env: Record<string, string>): string {
   return context.length > 0 ? ' ' + context.join(' ') : '';
 }
 
-async function generateSkillDescription(wrapperDir: string, tools: MCPTool[], env: Record<string, string> = {}): Promise<string> {
+async function generateSkillDescription(wrapperDir: string, tools: MCPTool[], env: Record<string, string> = {}, output: OutputFormat = 'ts'): Promise<string> {
   // Read categories from generated index
   let categories: string[] = [];
   try {
-    const indexPath = path.join(wrapperDir, 'index.ts');
+    const indexPath = path.join(wrapperDir, `index.${output}`);
     const indexContent = await fs.readFile(indexPath, 'utf-8');
     const categoryMatches = indexContent.match(/export \* as (\w+) from/g);
     categories = categoryMatches?.map(m => m.match(/as (\w+)/)?.[1]).filter((c): c is string => Boolean(c)) || [];
@@ -1571,13 +2452,109 @@ function printRestartMessage() {
   console.log(`   Run: claude -c`);
 }
 
+/**
+ * "Available Resources" section of SKILL.md - empty when the server has none
+ */
+function generateResourceSection(
+  server: ExtractedServer | undefined,
+  importBasePath: string,
+  serverType: 'typescript-local' | 'protocol',
+  quarantined: QuarantinedWrapper[] = [],
+  output: OutputFormat = 'ts'
+): string {
+  if (!server || serverType !== 'protocol') return '';
+
+  // Same naming pass as generateFilesystem, minus readers that were quarantined
+  const taken = new Set<string>();
+  const skipped = new Set(quarantined.filter(q => q.category === 'resources').map(q => q.functionName));
+  const readables = [...server.resources, ...server.resourceTemplates]
+    .map(resource => ({ resource, functionName: uniqueFunctionName(resource.name, taken, 'read_') }))
+    .filter(({ functionName }) => !skipped.has(functionName));
+  if (readables.length === 0) return '';
+
+  const lines = readables.map(({ resource, functionName }) => {
+    const location = 'uriTemplate' in resource ? resource.uriTemplate : resource.uri;
+    const description = (resource.description || resource.title || '').split('\n')[0];
+    return `- \`${functionName}\` - \`${location}\`${description ? ` - ${description}` : ''}`;
+  });
+  const { resource: first, functionName: example } = readables[0];
+  const exampleArgs = 'uriTemplate' in first
+    ? `{ ${extractTemplateVariables(first.uriTemplate).map(v => `${v.name}: 'value'`).join(', ')} }`
+    : '';
+
+  return `
+## Available Resources
+
+Read-only data the server exposes (files, schemas, documents). Each reader returns
+\`[{ uri, mimeType?, text?, blob? }]\` - \`blob\` is base64.
+
+**resources/:**
+${lines.join('\n')}
+${server.capabilities.resources?.subscribe ? '\nStatic resources also have a `watch_*` function that calls back when the resource changes.\n' : ''}
+\`\`\`typescript
+import { ${example} } from '${importBasePath}/resources/${example}.${output}';
+
+const [contents] = await ${example}(${exampleArgs});
+console.log(contents.text);
+\`\`\`
+`;
+}
+
+/**
+ * "Available Prompts" section of SKILL.md - empty when the server has none
+ */
+function generatePromptSection(
+  server: ExtractedServer | undefined,
+  importBasePath: string,
+  serverType: 'typescript-local' | 'protocol',
+  quarantined: QuarantinedWrapper[] = [],
+  output: OutputFormat = 'ts'
+): string {
+  if (!server || serverType !== 'protocol') return '';
+
+  const taken = new Set<string>(['index']);
+  const skipped = new Set(quarantined.filter(q => q.category === 'prompts').map(q => q.functionName));
+  const prompts = server.prompts
+    .map(prompt => ({ prompt, functionName: uniqueFunctionName(prompt.name, taken) }))
+    .filter(({ functionName }) => !skipped.has(functionName));
+  if (prompts.length === 0) return '';
+
+  const lines = prompts.map(({ prompt, functionName }) => {
+    const args = (prompt.arguments || []).map(a => `${a.name}${a.required ? '' : '?'}`).join(', ');
+    const description = (prompt.description || prompt.title || '').split('\n')[0];
+    return `- \`${functionName}(${args ? `{ ${args} }` : ''})\`${description ? ` - ${description}` : ''}`;
+  });
+  const { prompt: example, functionName: exampleName } = prompts[0];
+  const exampleArgs = (example.arguments || []).filter(a => a.required).map(a => `${a.name}: '...'`).join(', ');
+  const completable = server.capabilities.completions && prompts.some(({ prompt }) => (prompt.arguments || []).length > 0);
+
+  return `
+## Available Prompts
+
+Prompt templates the server publishes. Each function takes the prompt's arguments (all strings)
+and returns the rendered \`{ description?, messages: [{ role, content }] }\`.
+
+**prompts/:**
+${lines.join('\n')}
+${completable ? '\nPrompts with arguments also have a `complete_*` function that suggests values: `await complete_<prompt>(\'argument\', \'typed so far\')`.\n' : ''}
+\`\`\`typescript
+import { ${exampleName} } from '${importBasePath}/prompts/${exampleName}.${output}';
+
+const { messages } = await ${exampleName}(${exampleArgs ? `{ ${exampleArgs} }` : ''});
+\`\`\`
+`;
+}
+
 async function generateSkillWrapper(
   projectPath: string,
   serverName: string,
   wrapperDir: string,
   tools: MCPTool[],
   env: Record<string, string> = {},
-  serverType: 'typescript-local' | 'protocol' = 'protocol'
+  serverType: 'typescript-local' | 'protocol' = 'protocol',
+  server?: ExtractedServer,
+  quarantined: QuarantinedWrapper[] = [],
+  output: OutputFormat = 'ts'
 ) {
   const skillsDir = path.join(projectPath, '.claude', 'skills');
   await fs.mkdir(skillsDir, { recursive: true });
@@ -1590,7 +2567,7 @@ async function generateSkillWrapper(
   await fs.mkdir(skillDir, { recursive: true });
 
   // Generate capability-focused description from actual tool metadata
-  const description = await generateSkillDescription(wrapperDir, tools, env);
+  const description = await generateSkillDescription(wrapperDir, tools, env, output);
 
   // Determine import path based on server type
   const importBasePath = serverType === 'typescript-local'
@@ -1598,27 +2575,29 @@ async function generateSkillWrapper(
     : `../../.mcp-wrappers/${path.basename(wrapperDir)}`;
 
   const wrapperName = path.basename(wrapperDir);
+  const identifiers = assignToolIdentifiers(tools);
+  const functionName = (tool: MCPTool) => identifiers.get(tool.name)!.functionName;
 
   // Read categories from generated index to find example tools
   let exampleTool: MCPTool | null = null;
   let exampleCategory = 'other';
 
   try {
-    const indexPath = path.join(wrapperDir, 'index.ts');
+    const indexPath = path.join(wrapperDir, `index.${output}`);
     const indexContent = await fs.readFile(indexPath, 'utf-8');
     const categoryMatches = indexContent.match(/export \* as (\w+) from/g);
     const categories = categoryMatches?.map(m => m.match(/as (\w+)/)?.[1]).filter((c): c is string => Boolean(c)) || [];
 
     // Pick first non-empty category and first tool
-    for (const category of categories) {
+    for (const category of categories.filter(c => c !== 'resources' && c !== 'prompts')) {
       const categoryPath = path.join(wrapperDir, category);
       const files = await fs.readdir(categoryPath);
-      const toolFile = files.find(f => f.endsWith('.ts') && f !== 'index.ts');
+      const toolFile = files.find(f => f.endsWith(`.${output}`) && !f.endsWith('.d.ts') && f !== `index.${output}`);
 
       if (toolFile) {
         exampleCategory = category;
-        const toolName = toolFile.replace('.ts', '');
-        exampleTool = tools.find(t => t.name === toolName) || null;
+        const toolName = toolFile.slice(0, -`.${output}`.length);
+        exampleTool = tools.find(t => functionName(t) === toolName) || null;
         break;
       }
     }
@@ -1630,7 +2609,7 @@ async function generateSkillWrapper(
   // Generate example code based on actual tool
   let exampleCode = '';
   if (exampleTool) {
-    const toolName = exampleTool.name;
+    const toolName = functionName(exampleTool);
     const params = exampleTool.inputSchema?.properties ? Object.keys(exampleTool.inputSchema.properties).slice(0, 2) : [];
 
     // Generate example params based on tool name patterns
@@ -1649,26 +2628,25 @@ async function generateSkillWrapper(
       exampleParams = `{ ${params[0]}: 'value' }`;
     }
 
-    exampleCode = `import { ${toolName} } from '../../.mcp-wrappers/${wrapperName}/${exampleCategory}/${toolName}.ts';
+    exampleCode = `import { ${toolName} } from '../../.mcp-wrappers/${wrapperName}/${exampleCategory}/${toolName}.${output}';
 
 const result = await ${toolName}(${exampleParams});`;
   } else {
-    exampleCode = `import { tool_name } from '../../.mcp-wrappers/${wrapperName}/category/tool_name.ts';
+    exampleCode = `import { tool_name } from '../../.mcp-wrappers/${wrapperName}/category/tool_name.${output}';
 
 const result = await tool_name({ param: 'value' });`;
   }
 
-  // Create SKILL.md with YAML frontmatter
-  const skillContent = `---
-name: ${skillName}
-description: ${description}
----
-
-# ${serverName} MCP Wrapper
-
-## Response Format
+  // Tools with an outputSchema return typed structuredContent; only the others get normalized JSON
+  // that needs the extraction pattern. TypeScript-local wrappers are always untyped.
+  const resultTypeName = (tool: MCPTool) => `${identifiers.get(tool.name)!.typeName}Result`;
+  const isTyped = (tool: MCPTool) => serverType === 'protocol' && Boolean(tool.outputSchema);
+  const typedTools = tools.filter(isTyped);
+  const untypedCount = tools.length - typedTools.length;
+  const extractLine = 'const data = result.items || result.data || result.rows || result;';
 
-All tools return responses in this format (automatically normalized):
+  const responseFormat = [
+    untypedCount > 0 ? `${typedTools.length > 0 ? 'Tools without a result type (see below)' : 'All tools'} return responses in this format (automatically normalized):
 \`\`\`json
 {
   "success": true,
@@ -1678,34 +2656,68 @@ All tools return responses in this format (automatically normalized):
 }
 \`\`\`
 
-**Extract data (use this pattern for ALL tools):**
+**Extract data from ${typedTools.length > 0 ? 'those tools' : 'any tool'}:**
 \`\`\`typescript
-const data = result.items || result.data || result.rows || result;
+${extractLine}
 \`\`\`
+` : '',
+    typedTools.length > 0 ? `**Typed results:** ${untypedCount > 0 ? 'these tools' : 'every tool'} return${untypedCount > 0 ? '' : 's'} the structure declared by ${untypedCount > 0 ? 'their' : 'its'} output schema.
+Use the fields of the \`<ToolName>Result\` interface exported by the tool's file - don't apply an extraction pattern:
+${typedTools.map(t => `- \`${functionName(t)}\` → \`${resultTypeName(t)}\``).join('\n')}
+` : '',
+  ].filter(Boolean).join('\n');
+
+  // Lines that turn \`result\` into \`data\` in the templates below
+  const templateExtraction = untypedCount > 0
+    ? `  // Expected structure after normalization:
+  // { success: true, message: "...", items: [...] }
+  // OR { data: [...] } OR { rows: [...] } OR direct array [...]
+
+  // Extract data using this exact pattern (tools without a result type):
+  ${extractLine}`
+    : `  // The result is typed by the tool's <ToolName>Result interface - use its fields directly
+  const data = result;`;
+  const exampleReturn = exampleTool && isTyped(exampleTool)
+    ? `return result; // ${resultTypeName(exampleTool)}`
+    : 'return result.items || result.data || result.rows || result;';
+
+  // Create SKILL.md with YAML frontmatter
+  const skillContent = `---
+name: ${skillName}
+description: ${description}
+---
+
+# ${serverName} MCP Wrapper
+${server ? `
+**Server:** ${server.serverInfo ? `${server.serverInfo.name} ${server.serverInfo.version}` : 'unknown'} (MCP ${server.protocolVersion}) - supports ${describeCapabilities(server.capabilities)}
+${server.instructions ? `\n${server.instructions.trim()}\n` : ''}` : ''}
+## Response Format
+
+${responseFormat}
+**Other content:**
+- Plain text (not JSON) comes back as a string. Several JSON blocks come back as an array
+- Images and audio are saved to \`.claude/temp/mcp-output/\` and returned as \`{ type: 'image', path, mimeType, bytes }\`. Open the \`path\` instead of expecting base64
+- Embedded resources come back as \`{ type: 'resource', uri, mimeType, text }\` (binary ones get a \`path\`), and links as \`{ type: 'resource_link', uri, name }\`
+- Mixed results are an array with one entry per block
 
 **CREATE FILE IN:** \`.claude/temp/script.ts\`
 
 **IMPORT EXAMPLE (copy this exactly):**
 \`\`\`typescript
-import { tool_name } from '${importBasePath}/category/tool_name.ts';
+import { tool_name } from '${importBasePath}/category/tool_name.${output}';
 \`\`\`
 
 ## Complete Template
 
 \`\`\`typescript
 // File: .claude/temp/script.ts
-import { tool_name} from '${importBasePath}/category/tool_name.ts';
+import { tool_name} from '${importBasePath}/category/tool_name.${output}';
 
 export default async function() {
   // Call tool - responses are automatically normalized
   const result = await tool_name({ param: 'value' });
 
-  // Expected structure after normalization:
-  // { success: true, message: "...", items: [...] }
-  // OR { data: [...] } OR { rows: [...] } OR direct array [...]
-
-  // Extract data using this exact pattern:
-  const data = result.items || result.data || result.rows || result;
+${templateExtraction}
 
   if (Array.isArray(data)) {
     // Process array elements
@@ -1724,24 +2736,24 @@ ${(() => {
   const categorized = categorizeTools(tools);
   return Object.entries(categorized).map(([cat, catTools]) =>
     `**${cat}/:**\n` + catTools.map(t =>
-      `- \`${t.name}\` - ${(t.description || 'No description').split('\n')[0]}`
+      `- \`${functionName(t)}\`${functionName(t) !== t.name ? ` (MCP name \`${t.name}\`)` : ''}${isTyped(t) ? ` → \`${resultTypeName(t)}\`` : ''} - ${(t.description || 'No description').split('\n')[0]}`
     ).join('\n')
   ).join('\n\n');
 })()}
 
 Full schemas: \`.mcp-wrappers/${wrapperName}/\`
-
+${generateResourceSection(server, importBasePath, serverType, quarantined, output)}${generatePromptSection(server, importBasePath, serverType, quarantined, output)}
 ## Example
 
 \`\`\`typescript
 // .claude/temp/example.ts
-import { ${exampleTool?.name || 'tool_name'} } from '${importBasePath}/${exampleCategory}/${exampleTool?.name || 'tool_name'}.ts';
+import { ${exampleTool ? functionName(exampleTool) : 'tool_name'} } from '${importBasePath}/${exampleCategory}/${exampleTool ? functionName(exampleTool) : 'tool_name'}.${output}';
 
 export default async function() {
   // Responses are automatically normalized
-  const result = await ${exampleTool?.name || 'tool_name'}(${exampleCode.match(/await.*?\((.*?)\)/)?.[1] || '{}'});
+  const result = await ${exampleTool ? functionName(exampleTool) : 'tool_name'}(${exampleCode.match(/await.*?\((.*?)\)/)?.[1] || '{}'});
   console.log(JSON.stringify(result, null, 2));
-  return result.items || result.data || result.rows || result;
+  ${exampleReturn}
 }
 \`\`\`
 
@@ -1767,23 +2779,50 @@ const result = await tool_name({ param: 'value' });
 // Inspect structure first
 console.log('Response:', JSON.stringify(result, null, 2));
 
-// Extract data (common patterns: .items, .data, .rows, or use result directly)
-const data = result.items || result.data || result.rows || result;
+${untypedCount > 0
+  ? `// Tools without a result type: common patterns are .items, .data, .rows, or the result itself
+${extractLine}`
+  : `// Typed results: read the fields of the tool's <ToolName>Result interface
+const data = result;`}
 \`\`\`
 
 ## Troubleshooting
 
 **Cannot find module**
-- Use \`../../.mcp-wrappers/\` (TWO dots) with \`.ts\` extension
+- Use \`../../.mcp-wrappers/\` (TWO dots) with \`.${output}\` extension
 - File must be in \`.claude/temp/\`
 
+**Wrong parameter names or types**
+- Check the script before running it: \`npx tsx .mcp-wrappers/.runtime-executor.ts --check ${serverName} ./.claude/temp/script.ts\`
+- Nothing runs if it fails. Each problem is listed with its line, the expected parameters and "did you mean" suggestions
+
+**Long-running tools**
+- Pass options as the second argument: \`await tool_name(params, { onProgress: p => console.log(p.progress, p.total), signal })\`
+- Abort with an \`AbortController\` signal - the server is told to cancel
+- Override the timeout for one call: \`await tool_name(params, { timeout: 300000 })\`
+
+**Handling errors**
+- Failed calls throw instead of returning error text: \`MCPToolError\` (tool reported failure), \`MCPProtocolError\` (server rejected the request), \`MCPTimeoutError\`, \`MCPTransportClosedError\`
+- Bad arguments throw \`MCPValidationError\` before anything is sent. \`issues\` lists every violation, e.g. \`params.limit: expected integer, got string\`
+- Schema defaults are filled in for arguments you leave out
+- With \`--validate-output strict\`, a response that breaks the tool's outputSchema also throws \`MCPValidationError\`
+- Each carries \`toolName\`, \`args\`, and \`code\`/\`data\` where the server sent them
+- Import from \`${importBasePath}/types.${output}\` to use \`instanceof\`, or check \`error.name\`
+
 **Wrong data structure**
 - Log with \`console.log(JSON.stringify(result, null, 2))\`
-- Try \`result.data || result.items || result.rows || result\`
-- Responses are automatically normalized - no manual \`content[0].text\` parsing needed
+${untypedCount > 0 ? `- Tools without a result type: try \`result.data || result.items || result.rows || result\`\n` : ''}${typedTools.length > 0 ? `- Typed tools: check the \`<ToolName>Result\` interface in the tool's file\n` : ''}- Responses are automatically normalized - no manual \`content[0].text\` parsing needed
 
 **Must call through executor**
 - Run: \`npx tsx .mcp-wrappers/.runtime-executor.ts ${serverName} ./script.ts\`
+${output === 'js' ? `- Without tsx, for plain JavaScript scripts: \`node .mcp-wrappers/${wrapperName}/runtime-executor.js ${serverName} ./script.js\`\n` : ''}
+**Using several servers in one script**
+- Import wrappers from any \`.mcp-wrappers/<server>/\` directory - each call goes to that wrapper's server, started on first use
+- Run without a server name: \`npx tsx .mcp-wrappers/.runtime-executor.ts ./.claude/temp/script.ts\`
+
+**Slow startup / state lost between scripts**
+- Keep the server warm: \`npx tsx .mcp-wrappers/.runtime-executor.ts daemon start ${serverName}\` - later runs attach automatically
+- Check or stop it with \`daemon status\` / \`daemon stop\`
 `;
   await fs.writeFile(
     path.join(skillDir, 'SKILL.md'),
@@ -1823,23 +2862,29 @@ ${bold}OPTIONS:${reset}
   ${yellow}--all${reset}                               Generate all servers without prompting (default: interactive)
   ${yellow}--servers <list>${reset}                    Generate specific servers (comma-separated)
   ${yellow}--no-disable${reset}                        Keep MCPs enabled after generating wrappers
+  ${yellow}--verify <mode>${reset}                     Wrappers that don't type-check: quarantine (default), strict, off
+  ${yellow}--output <format>${reset}                   Wrapper files: ts (default, run with tsx) or js (compiled .js + .d.ts package for plain node)
+  ${yellow}--package-version <v>${reset}               Version for --output js packages (default: server version + schema hash)
   ${yellow}--help, -h${reset}                          Show this help message
 
 ${bold}EXAMPLES WITH FLAGS:${reset}
   ${green}npx mcp-code-wrapper . --servers mssql-main,chrome-devtools${reset}
   ${green}npx mcp-code-wrapper . --all --no-disable${reset}
+  ${green}npx mcp-code-wrapper . --all --output js${reset}
 
 ${bold}MORE INFO:${reset}
   ${blue}https://github.com/paddo/mcp-code-wrapper${reset}
 `);
 }
 
-// CLI usage
-async function main() {
+/**
+ * CLI entry point (used by cli.ts)
+ */
+export async function main() {
   const args = process.argv.slice(2);
 
   // Remove flags and their values from args for path detection
-  const flagsWithValues = ['--servers', '--from-mcp-json', '--server', '--env'];
+  const flagsWithValues = ['--servers', '--from-mcp-json', '--server', '--env', '--verify', '--output', '--package-version'];
   const pathArgs: string[] = [];
   const flags: string[] = [];
 
@@ -1878,6 +2923,35 @@ async function main() {
   const isGlobal = flags.includes('--global');
   const interactive = !flags.includes('--all');
 
+  // Parse --verify flag (what to do with wrappers that don't type-check)
+  const verifyIndex = args.indexOf('--verify');
+  let verify: VerifyMode = 'quarantine';
+  if (verifyIndex !== -1) {
+    const mode = args[verifyIndex + 1];
+    if (mode !== 'quarantine' && mode !== 'strict' && mode !== 'off') {
+      throw new Error('--verify expects quarantine, strict or off');
+    }
+    verify = mode;
+  }
+
+  // Parse --output flag (TypeScript sources, or a compiled JavaScript package)
+  const outputIndex = args.indexOf('--output');
+  let output: OutputFormat = 'ts';
+  if (outputIndex !== -1) {
+    const format = args[outputIndex + 1];
+    if (format !== 'ts' && format !== 'js') {
+      throw new Error('--output expects ts or js');
+    }
+    output = format;
+  }
+
+  // Parse --package-version flag (version written to compiled packages)
+  const packageVersionIndex = args.indexOf('--package-version');
+  const packageVersion = packageVersionIndex !== -1 ? args[packageVersionIndex + 1] : undefined;
+  if (packageVersionIndex !== -1 && !/^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/.test(packageVersion || '')) {
+    throw new Error('--package-version expects a semver version, e.g. 1.4.0');
+  }
+
   // Parse --servers flag
   const serversIndex = args.indexOf('--servers');
   let specifiedServers: string[] | undefined;
@@ -1915,7 +2989,7 @@ async function main() {
     console.log(`✅ Found ${mcpJsonPath}\n`);
 
     // Generate in ~/.claude/.mcp-wrappers/
-    await generateAllFromProject(claudeDir, true, disableMCPs, interactive, specifiedServers);
+    await generateAllFromProject(claudeDir, true, disableMCPs, interactive, specifiedServers, verify, output, packageVersion);
     return;
   }
 
@@ -1937,14 +3011,12 @@ async function main() {
 
     if (isDir) {
       // No try-catch here - let errors from generateAllFromProject bubble up to top-level handler
-      await generateAllFromProject(projectPath, true, disableMCPs, interactive, specifiedServers);
+      await generateAllFromProject(projectPath, true, disableMCPs, interactive, specifiedServers, verify, output, packageVersion);
       return;
     }
   }
 
-  let command: string;
-  let commandArgs: string[];
-  let env: Record<string, string> = {};
+  let server: MCPServerConfig;
   let outputDir = 'api-universal';
   let serverName = 'MCP';
 
@@ -1956,48 +3028,50 @@ async function main() {
   if (mcpJsonIndex !== -1 && serverIndex !== -1) {
     // Load from .mcp.json
     const mcpJsonPath = args[mcpJsonIndex + 1];
-    const server = args[serverIndex + 1];
+    const name = args[serverIndex + 1];
 
-    console.log(`\n📖 Loading config from ${mcpJsonPath} (server: ${server})\n`);
+    console.log(`\n📖 Loading config from ${mcpJsonPath} (server: ${name})\n`);
 
-    const config = await loadMCPConfig(mcpJsonPath, server);
-    command = config.command;
-    commandArgs = config.args;
-    env = config.env;
-    serverName = server;
+    server = await loadMCPConfig(mcpJsonPath, name);
+    serverName = name;
   } else if (envIndex !== -1) {
     // Parse --env flag
     const envString = args[envIndex + 1];
-    env = parseEnvString(envString);
+    const env = parseEnvString(envString);
 
     // Get command/args (everything before --env)
     const beforeEnv = args.slice(0, envIndex);
-    command = beforeEnv[0];
-    commandArgs = beforeEnv.slice(1);
+    const command = beforeEnv[0];
+    const commandArgs = beforeEnv.slice(1);
 
     if (!command || commandArgs.length === 0) {
       throw new Error('Must provide command and args when using --env flag');
     }
+    server = { command, args: commandArgs, env };
   } else {
     // Traditional CLI: pnpm run generate <command> <args...>
     if (!args[0] || !args[1]) {
       throw new Error('Must provide MCP server command and args (e.g., node /path/to/server.js)');
     }
-    command = args[0];
-    commandArgs = args.slice(1);
+    server = { command: args[0], args: args.slice(1) };
   }
 
+  const env = server.env || {};
+
   // Set env vars for the spawned process
   if (Object.keys(env).length > 0) {
     Object.assign(process.env, env);
   }
 
-  console.log(`\n🚀 Command: ${command} ${commandArgs.join(' ')}\n`);
+  console.log(`\n🚀 ${server.command ? 'Command' : 'URL'}: ${describeServer(server)}\n`);
   if (Object.keys(env).length > 0) {
     console.log(`🔐 Environment: ${Object.keys(env).length} variables\n`);
   }
 
-  await generateFilesystem(command, commandArgs, outputDir, serverName, env);
+  await generateFilesystem(server, outputDir, serverName, false, 'protocol', process.cwd(), verify, output, packageVersion);
 }
 
-main().catch(console.error);
+// Only run the CLI when executed directly (cli.ts calls main itself)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(console.error);
+}
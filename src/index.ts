@@ -0,0 +1,91 @@
+/**
+ * MCP Code Wrapper - programmatic API
+ *
+ * Drive generation and execution from Node instead of the CLI:
+ *
+ * ```typescript
+ * import { generateAllFromProject, executeCode } from 'mcp-code-wrapper';
+ *
+ * const generated = await generateAllFromProject('/path/to/project', true, false);
+ * const { result, error } = await executeCode('mssql-main', './script.ts');
+ * ```
+ */
+
+// Generation
+export { generateFilesystem, generateAllFromProject, restoreProject } from './generator.js';
+export type {
+  GeneratedWrapper,
+  ProjectGenerationResult,
+  VerifyMode,
+  OutputFormat,
+  QuarantinedWrapper,
+  ExtractedServer,
+  MCPTool,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPPrompt,
+} from './generator.js';
+
+// Client, transports and errors
+export {
+  MCPClient,
+  StdioTransport,
+  StreamableHttpTransport,
+  SseTransport,
+  createTransport,
+  describeServer,
+  expandUriTemplate,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+  MCPError,
+  MCPProtocolError,
+  MCPToolError,
+  MCPTimeoutError,
+  MCPTransportClosedError,
+  MCPValidationError,
+  validateSchema,
+} from './runtime-executor.js';
+
+// Execution
+export {
+  executeCode,
+  ScriptCheckError,
+  createServerClient,
+  ClientRegistry,
+  connect,
+  DaemonClient,
+  ExecutorDaemon,
+  createSamplingHandler,
+  createPromptElicitationHandler,
+  createPolicyElicitationHandler,
+} from './runtime-executor.js';
+
+export type {
+  ConnectOptions,
+  ExecutionResult,
+  ScriptDiagnostic,
+  ToolClient,
+  ResourceContents,
+  ResourceListener,
+  ContentFile,
+  EmbeddedResource,
+  ResourceLink,
+  PromptResult,
+  CompletionReference,
+  CompletionResult,
+  ServerDetails,
+  MCPErrorDetails,
+  ValidationMode,
+  ValidationIssue,
+  MCPServerConfig,
+  MCPTransport,
+  WrapperConfig,
+  RestartPolicy,
+  CallOptions,
+  ProgressUpdate,
+  SamplingConfig,
+  SamplingHandler,
+  ElicitationConfig,
+  ElicitationPolicy,
+  ElicitationHandler,
+} from './runtime-executor.js';
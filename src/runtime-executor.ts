@@ -3,12 +3,22 @@
  * Executes TypeScript code with MCP wrapper functions active
  *
  * Usage:
- *   npx tsx .mcp-wrappers/.runtime-executor.ts <server-name> <code-file>
+ *   npx tsx .mcp-wrappers/.runtime-executor.ts [--timeout <ms>] [--validate-output <mode>] [--check] [--daemon | --no-daemon] [server-name] <code-file>
+ *   npx tsx .mcp-wrappers/.runtime-executor.ts daemon start|run|status|stop
+ *
+ * Wrappers generated with --output js carry a compiled copy that runs under plain node:
+ *   node .mcp-wrappers/<server>/runtime-executor.js [options] [server-name] <code-file.js>
  */
 
 import { spawn } from 'child_process';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { openSync } from 'fs';
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { isBuiltin } from 'module';
+import { createConnection, createServer, isIPv4, isIPv6 } from 'net';
+import type { Socket } from 'net';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import readline from 'readline';
+import type ts from 'typescript';
 import { pathToFileURL } from 'url';
 
 interface MCPRequest {
@@ -25,16 +35,291 @@ interface MCPResponse {
   error?: any;
 }
 
-class MCPClient {
+/**
+ * Request sent by the server to the client (roots/list, ping, ...)
+ */
+interface MCPServerRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: any;
+}
+
+type RequestHandler = (params: any) => any | Promise<any>;
+type NotificationHandler = (params: any) => void;
+
+/**
+ * notifications/progress payload for a single call
+ */
+interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-call options accepted by generated wrappers
+ */
+interface CallOptions {
+  onProgress?: (update: ProgressUpdate) => void;
+  signal?: AbortSignal;
+  timeout?: number;
+  idempotent?: boolean;
+  /** Tool's declared outputSchema (wrappers pass their metadata.outputSchema) */
+  outputSchema?: any;
+  /** Check structuredContent against outputSchema, overriding configured modes */
+  validateOutput?: ValidationMode;
+  /** Tool's inputSchema (wrappers pass their metadata.inputSchema) - arguments are checked before sending */
+  inputSchema?: any;
+  /** Set to false to send arguments unchecked */
+  validateInput?: boolean;
+}
+
+/**
+ * How schema violations are handled: ignored, logged, or thrown as MCPValidationError
+ */
+type ValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * One schema violation - where in the value, and what is wrong there
+ */
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * One part of a resources/read result: text, or base64 blob for binary data
+ */
+interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Called with the URI of a subscribed resource when the server reports a change
+ */
+type ResourceListener = (uri: string) => void;
+
+/**
+ * Image or audio block from a tool result, saved to disk instead of returned as base64
+ */
+interface ContentFile {
+  type: 'image' | 'audio';
+  path: string;
+  mimeType: string;
+  bytes: number;
+}
+
+/**
+ * Resource embedded in a tool result. Binary contents are saved to `path` like images.
+ */
+interface EmbeddedResource {
+  type: 'resource';
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  path?: string;
+  bytes?: number;
+}
+
+/**
+ * Pointer to a resource the tool did not inline - read it with readResource(uri)
+ */
+interface ResourceLink {
+  type: 'resource_link';
+  uri: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+/**
+ * Directory (under the project) where binary content from tool results is written
+ */
+const CONTENT_OUTPUT_DIR = join('.claude', 'temp', 'mcp-output');
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/octet-stream': 'bin',
+};
+
+/**
+ * Rendered prompt from prompts/get, ready to hand to a model
+ */
+interface PromptResult {
+  description?: string;
+  messages: { role: 'user' | 'assistant'; content: any }[];
+}
+
+/**
+ * What completion/complete is asked to complete: a prompt argument or a resource template variable
+ */
+type CompletionReference = { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string };
+
+/**
+ * Suggested values for an argument (at most 100 per response)
+ */
+interface CompletionResult {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+interface PendingRequest {
+  resolve: Function;
+  reject: Function;
+  message: MCPRequest;
+  idempotent: boolean;
+  retry?: boolean;
+}
+
+/**
+ * MCP protocol versions this client speaks, newest first
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * What the server told us about itself during initialize
+ */
+interface ServerDetails {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo?: { name: string; version: string; title?: string };
+  instructions?: string;
+}
+
+// JSON-RPC 2.0 error codes
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+interface MCPServerConfig {
+  type?: 'stdio' | 'http' | 'sse';
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  sampling?: SamplingConfig;
+  elicitation?: ElicitationConfig;
+  timeout?: number;
+  restart?: boolean | RestartPolicy;
+  validateOutput?: ValidationMode;
+}
+
+/**
+ * Restart behaviour after the server dies (.mcp.json "restart")
+ * - retries: restart attempts before giving up (default 3)
+ * - delay: backoff before the first attempt in ms, doubled on each retry (default 500)
+ */
+interface RestartPolicy {
+  retries?: number;
+  delay?: number;
+}
+
+/**
+ * Project-level wrapper settings (mcp-wrapper.config.json), keyed by .mcp.json server name
+ */
+interface WrapperConfig {
+  servers?: Record<string, {
+    tools?: Record<string, { timeout?: number; validateOutput?: ValidationMode }>;
+  }>;
+}
+
+/**
+ * Default request timeout when nothing more specific is configured
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Where sampling/createMessage requests are answered from (.mcp.json "sampling")
+ * - command: spawned per request, receives the request params as JSON on stdin
+ *   and must print a CreateMessageResult as JSON on stdout
+ * - responses: JSON file with a result object, or an array of results used in order
+ */
+interface SamplingConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  responses?: string;
+}
+
+type SamplingHandler = (params: any) => any | Promise<any>;
+
+/**
+ * How elicitation/create requests are answered when not on a TTY (.mcp.json "elicitation")
+ * - policy: JSON file of rules matched against the request message
+ */
+interface ElicitationConfig {
+  policy?: string;
+}
+
+/**
+ * Elicitation policy file: first rule whose "match" regex hits the message wins,
+ * otherwise "default" applies (decline if omitted)
+ */
+interface ElicitationPolicy {
+  default?: 'accept' | 'decline' | 'cancel';
+  rules?: {
+    match: string;
+    action: 'accept' | 'decline' | 'cancel';
+    content?: Record<string, any>;
+  }[];
+}
+
+type ElicitationHandler = (params: any) => any | Promise<any>;
+
+/**
+ * Message channel between MCPClient and a server.
+ * Implementations deliver every parsed JSON-RPC message to onmessage, and
+ * call onclose if the connection dies without close() being called.
+ */
+interface MCPTransport {
+  onmessage?: (message: any) => void;
+  onclose?: (error: Error) => void;
+  start(): Promise<void>;
+  send(message: any): Promise<void>;
+  close(): Promise<void>;
+  setProtocolVersion?(version: string): void;
+}
+
+/**
+ * stdio transport: spawns the server and exchanges newline-delimited JSON
+ */
+class StdioTransport implements MCPTransport {
+  onmessage?: (message: any) => void;
+  onclose?: (error: Error) => void;
   private process: any;
-  private requestId = 0;
-  private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
   private buffer = '';
+  private stderrLines: string[] = [];
+  private exited = false;
 
-  async start(command: string, args: string[], env: Record<string, string> = {}) {
-    this.process = spawn(command, args, {
+  constructor(
+    private command: string,
+    private args: string[] = [],
+    private env: Record<string, string> = {}
+  ) {}
+
+  async start() {
+    this.process = spawn(this.command, this.args, {
       stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, ...env }
+      env: { ...process.env, ...this.env }
     });
 
     this.process.stdout.on('data', (data: Buffer) => {
@@ -43,14 +328,31 @@ class MCPClient {
     });
 
     this.process.stderr.on('data', (data: Buffer) => {
-      // Suppress stderr unless error
+      // Suppress stderr, but keep the tail for crash reports
+      this.stderrLines.push(...data.toString().split('\n').filter(line => line.trim()));
+      this.stderrLines = this.stderrLines.slice(-STDERR_TAIL_LINES);
     });
 
+    // Writes to a dead process surface as EPIPE here; 'exit' reports the cause
+    this.process.stdin.on('error', () => {});
+
     this.process.on('error', (err: Error) => {
-      console.error('MCP process error:', err);
+      this.handleExit(`MCP server failed to start: ${err.message}`);
     });
 
-    await this.initialize();
+    this.process.on('exit', (code: number | null, signal: string | null) => {
+      this.handleExit(`MCP server exited with ${code !== null ? `code ${code}` : `signal ${signal}`}`);
+    });
+  }
+
+  private handleExit(reason: string) {
+    if (this.exited) return;
+    this.exited = true;
+
+    const stderr = this.stderrLines.length > 0
+      ? `\nLast stderr:\n${this.stderrLines.map(line => `  ${line}`).join('\n')}`
+      : '';
+    this.onclose?.(new Error(reason + stderr));
   }
 
   private processBuffer() {
@@ -61,129 +363,22 @@ class MCPClient {
       if (!line.trim()) continue;
 
       try {
-        const response: MCPResponse = JSON.parse(line);
-        const pending = this.pendingRequests.get(response.id);
-
-        if (pending) {
-          this.pendingRequests.delete(response.id);
-          if (response.error) {
-            pending.reject(new Error(response.error.message || JSON.stringify(response.error)));
-          } else {
-            pending.resolve(response.result);
-          }
-        }
+        this.onmessage?.(JSON.parse(line));
       } catch (e) {
         // Ignore parse errors for non-JSON lines
       }
     }
   }
 
-  private async initialize() {
-    await this.request('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
-      clientInfo: {
-        name: 'mcp-code-wrapper-executor',
-        version: '1.0.0',
-      },
-    });
-
-    this.notify('notifications/initialized', {});
-  }
-
-  private request(method: string, params?: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = ++this.requestId;
-      const request: MCPRequest = {
-        jsonrpc: '2.0',
-        id,
-        method,
-        params,
-      };
-
-      this.pendingRequests.set(id, { resolve, reject });
-      this.process.stdin.write(JSON.stringify(request) + '\n');
-
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error(`Request timeout: ${method}`));
-        }
-      }, 30000);
-    });
-  }
-
-  private notify(method: string, params?: any) {
-    const notification = {
-      jsonrpc: '2.0',
-      method,
-      params,
-    };
-    this.process.stdin.write(JSON.stringify(notification) + '\n');
-  }
-
-  async callTool(name: string, args: any = {}): Promise<any> {
-    const result = await this.request('tools/call', {
-      name,
-      arguments: args,
-    });
-    return this.normalizeResponse(result);
-  }
-
-  /**
-   * Normalize MCP responses to handle common unusual formats
-   */
-  private normalizeResponse(result: any): any {
-    // If result has content array with text, parse it first
-    if (result?.content?.[0]?.text) {
-      try {
-        const parsed = JSON.parse(result.content[0].text);
-        return this.normalizeData(parsed);
-      } catch {
-        return result;
-      }
-    }
-
-    return this.normalizeData(result);
-  }
-
-  /**
-   * Recursively normalize data structures
-   */
-  private normalizeData(data: any): any {
-    if (Array.isArray(data)) {
-      return data.map(item => this.normalizeData(item));
-    }
-
-    if (data && typeof data === 'object') {
-      // Handle { "": value } pattern - unwrap to just value
-      const keys = Object.keys(data);
-      if (keys.length === 1 && keys[0] === '') {
-        const value = data[''];
-        // If value is a primitive, return it directly
-        if (typeof value !== 'object') {
-          return value;
-        }
-        // If value is an object, normalize it
-        return this.normalizeData(value);
-      }
-
-      // Otherwise normalize each property
-      const normalized: any = {};
-      for (const [key, value] of Object.entries(data)) {
-        normalized[key] = this.normalizeData(value);
-      }
-      return normalized;
+  async send(message: any) {
+    if (!this.process || this.exited) {
+      throw new Error('MCP server process is not running');
     }
-
-    return data;
+    this.process.stdin.write(JSON.stringify(message) + '\n');
   }
 
-  async stop() {
+  async close() {
     if (this.process) {
-      // Clear pending requests
-      this.pendingRequests.clear();
-
       // Remove all listeners to prevent event loop from hanging
       this.process.stdout.removeAllListeners();
       this.process.stderr.removeAllListeners();
@@ -212,118 +407,2380 @@ class MCPClient {
   }
 }
 
-/**
- * Load MCP server config from .mcp.json
- */
-async function loadServerConfig(serverName: string): Promise<{ command: string; args: string[]; env: Record<string, string> }> {
-  const mcpJsonPath = join(process.cwd(), '.mcp.json');
-  const content = await readFile(mcpJsonPath, 'utf-8');
-  const config = JSON.parse(content);
+// stderr lines kept for crash reports
+const STDERR_TAIL_LINES = 10;
 
-  const serverMapping = await loadServerMapping();
-  const actualServerName = Object.keys(serverMapping).find(key => serverMapping[key] === serverName) || serverName;
+// How long a legacy SSE server gets to announce its POST endpoint
+const SSE_ENDPOINT_TIMEOUT = 10000;
 
-  const serverConfig = config.mcpServers?.[actualServerName];
-  if (!serverConfig) {
-    throw new Error(`Server "${actualServerName}" not found in .mcp.json`);
-  }
+/**
+ * Read a text/event-stream body chunk by chunk, calling onEvent per complete event
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: { event: string; data: string; id?: string }) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
 
-  return {
-    command: serverConfig.command,
-    args: serverConfig.args || [],
-    env: serverConfig.env || {}
+  const dispatch = () => {
+    if (data.length > 0) {
+      onEvent({ event, data: data.join('\n'), id });
+    }
+    event = 'message';
+    data = [];
   };
-}
 
-/**
- * Load server-to-wrapper mapping
- */
-async function loadServerMapping(): Promise<Record<string, string>> {
-  try {
-    const mappingPath = join(process.cwd(), '.mcp-wrappers', '.mcp-server-mapping.json');
-    const content = await readFile(mappingPath, 'utf-8');
-    return JSON.parse(content);
-  } catch {
-    return {};
-  }
-}
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
 
-/**
- * Create wrapper function proxy that calls MCP tools
- */
-function createWrapperProxy(client: MCPClient) {
-  return new Proxy({}, {
-    get(target, prop) {
-      if (typeof prop === 'string') {
-        return async (params: any) => {
-          return await client.callTool(prop, params);
-        };
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line === '') {
+        dispatch();
+        continue;
       }
-      return undefined;
+      if (line.startsWith(':')) continue; // Comment / keep-alive
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'id') id = value;
     }
-  });
+  }
+
+  dispatch();
 }
 
 /**
- * Detect if this is a TypeScript local server (wrappers in .mcp-server/dist/wrappers/)
- * This checks if the SERVER ITSELF is built locally, not if the project has any local servers
+ * Streamable HTTP transport: POSTs each message to a single endpoint.
+ * Replies come back as JSON or as a (chunked) event stream; the session id
+ * issued on initialize is echoed on every later request.
+ * A dropped connection or an expired session (HTTP 404) closes the transport.
  */
-async function isTypescriptLocal(serverName: string): Promise<boolean> {
-  try {
-    const { stat } = await import('fs/promises');
-    const config = await loadServerConfig(serverName);
+class StreamableHttpTransport implements MCPTransport {
+  onmessage?: (message: any) => void;
+  onclose?: (error: Error) => void;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private controllers = new Set<AbortController>();
+  private closed = false;
 
-    // Check if the command points to a local .mcp-server directory
-    const isLocalServer = config.command.includes('.mcp-server') ||
-                          config.args.some(arg => arg.includes('.mcp-server'));
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {}
+  ) {}
 
-    if (!isLocalServer) {
-      return false;
-    }
+  async start() {
+    // Connection is established lazily by the first POST (initialize)
+  }
 
-    // Verify the wrappers directory exists
-    const wrappersPath = join(process.cwd(), '.mcp-server', 'dist', 'wrappers');
-    await stat(wrappersPath);
-    return true;
-  } catch {
+  /**
+   * Negotiated version, sent as a header on every request after initialize
+   */
+  setProtocolVersion(version: string) {
+    this.protocolVersion = version;
+  }
+
+  private requestHeaders(extra: Record<string, string> = {}): Record<string, string> {
+    return {
+      ...this.headers,
+      ...(this.sessionId ? { 'mcp-session-id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'mcp-protocol-version': this.protocolVersion } : {}),
+      ...extra,
+    };
+  }
+
+  /**
+   * The server can no longer be reached: stop all streams and report it once
+   */
+  private fail(error: Error) {
+    if (this.closed) return;
+    this.closed = true;
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    this.controllers.clear();
+    this.onclose?.(error);
+  }
+
+  /**
+   * A 404 on a request that carries a session id means the server dropped the session
+   */
+  private sessionExpired(response: Response): Error | undefined {
+    if (response.status !== 404 || !this.sessionId) return undefined;
+    const error = new Error(`MCP session ${this.sessionId} expired on ${this.url} (HTTP 404) - the client has to initialize again`);
+    this.sessionId = undefined;
+    return error;
+  }
+
+  async send(message: any) {
+    if (this.closed) {
+      throw new Error(`Connection to ${this.url} is closed`);
+    }
+
+    const controller = new AbortController();
+    this.controllers.add(controller);
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.requestHeaders({
+          'Content-Type': 'application/json',
+          'Accept': 'application/json, text/event-stream',
+        }),
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      this.controllers.delete(controller);
+      // Unreachable server, like a stdio server that exited
+      if (!controller.signal.aborted) {
+        this.fail(new Error(`MCP server at ${this.url} is unreachable: ${error?.cause?.message || error?.message || error}`));
+      }
+      throw error;
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      this.controllers.delete(controller);
+      const expired = this.sessionExpired(response);
+      if (expired) {
+        this.fail(expired);
+        throw expired;
+      }
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} from ${this.url}${text ? `: ${text}` : ''}`);
+    }
+
+    // Once the handshake is done, listen for server-initiated messages
+    if (message.method === 'notifications/initialized') {
+      this.openEventStream();
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+
+    if (response.status === 202 || !response.body) {
+      this.controllers.delete(controller);
+      return;
+    }
+
+    if (contentType.includes('text/event-stream')) {
+      // Don't block the sender - responses are delivered as events arrive
+      readEventStream(response.body, event => this.handleEvent(event.data))
+        .catch(error => {
+          // Dropped mid-response: the replies it carried are lost
+          if (!controller.signal.aborted) {
+            this.fail(new Error(`Event stream from ${this.url} dropped: ${error?.message || error}`));
+          }
+        })
+        .finally(() => this.controllers.delete(controller));
+      return;
+    }
+
+    try {
+      const text = await response.text();
+      if (text.trim()) {
+        this.deliver(JSON.parse(text));
+      }
+    } finally {
+      this.controllers.delete(controller);
+    }
+  }
+
+  /**
+   * Optional GET stream for messages the server sends outside of a request
+   */
+  private openEventStream() {
+    const controller = new AbortController();
+    this.controllers.add(controller);
+
+    fetch(this.url, {
+      method: 'GET',
+      headers: this.requestHeaders({ 'Accept': 'text/event-stream' }),
+      signal: controller.signal,
+    })
+      .then(async response => {
+        const expired = this.sessionExpired(response);
+        if (expired) throw expired;
+        // 405 means the server doesn't offer a standalone stream
+        if (!response.ok || !response.body) return;
+        await readEventStream(response.body, event => this.handleEvent(event.data));
+      })
+      .catch(error => {
+        // The stream itself is optional, but losing it means the server went away
+        if (!controller.signal.aborted) {
+          this.fail(error instanceof Error ? error : new Error(String(error)));
+        }
+      })
+      .finally(() => this.controllers.delete(controller));
+  }
+
+  private handleEvent(data: string) {
+    try {
+      this.deliver(JSON.parse(data));
+    } catch {
+      // Ignore non-JSON events
+    }
+  }
+
+  private deliver(payload: any) {
+    const messages = Array.isArray(payload) ? payload : [payload];
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    this.controllers.clear();
+
+    // Explicitly end the session so the server can free resources
+    if (this.sessionId) {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: this.requestHeaders(),
+      }).catch(() => {});
+      this.sessionId = undefined;
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE transport: a long-lived GET event stream carries server
+ * messages, and the first "endpoint" event names the URL to POST messages to
+ */
+class SseTransport implements MCPTransport {
+  onmessage?: (message: any) => void;
+  onclose?: (error: Error) => void;
+  private endpoint?: string;
+  private controller = new AbortController();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    private endpointTimeout: number = SSE_ENDPOINT_TIMEOUT
+  ) {}
+
+  async start() {
+    const response = await fetch(this.url, {
+      method: 'GET',
+      headers: { ...this.headers, 'Accept': 'text/event-stream' },
+      signal: this.controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status} from ${this.url}`);
+    }
+
+    const body = response.body;
+
+    // Resolve once the server announces where to POST messages
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`SSE stream from ${this.url} sent no endpoint within ${this.endpointTimeout}ms`));
+        this.controller.abort();
+      }, this.endpointTimeout);
+
+      readEventStream(body, event => {
+        if (event.event === 'endpoint') {
+          clearTimeout(timer);
+          this.endpoint = new URL(event.data, this.url).href;
+          resolve();
+        } else if (event.event === 'message') {
+          try {
+            this.onmessage?.(JSON.parse(event.data));
+          } catch {
+            // Ignore non-JSON events
+          }
+        }
+      }).then(
+        () => {
+          clearTimeout(timer);
+          reject(new Error(`SSE stream from ${this.url} closed before sending an endpoint`));
+          this.handleStreamEnd(new Error(`SSE stream from ${this.url} closed`));
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+          this.handleStreamEnd(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * The event stream is the connection - once it drops the session is gone
+   */
+  private handleStreamEnd(error: Error) {
+    if (!this.endpoint || this.controller.signal.aborted) return;
+    this.endpoint = undefined;
+    this.onclose?.(error);
+  }
+
+  async send(message: any) {
+    if (!this.endpoint) {
+      throw new Error('SSE transport not connected');
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} from ${this.endpoint}${text ? `: ${text}` : ''}`);
+    }
+  }
+
+  async close() {
+    this.controller.abort();
+    this.endpoint = undefined;
+  }
+}
+
+/**
+ * Context kept on every MCPError
+ */
+interface MCPErrorDetails {
+  code?: number;
+  data?: any;
+  toolName?: string;
+  args?: any;
+  cause?: unknown;
+}
+
+/**
+ * Brand carried by every MCPError: the kinds of its class chain, e.g. ['MCPToolError', 'MCPError'].
+ * Symbol.for() is shared across module copies, so errors thrown by one copy of this file
+ * (the project executor) still match the classes imported from another (a compiled wrapper package)
+ */
+const ERROR_KIND = Symbol.for('mcp-code-wrapper.error-kind');
+
+/**
+ * Base class for failures of an MCP call - catch this to handle any of them
+ */
+class MCPError extends Error {
+  static readonly kind: string = 'MCPError';
+
+  code?: number;
+  data?: any;
+  toolName?: string;
+  args?: any;
+  declare readonly [ERROR_KIND]: string[];
+
+  constructor(message: string, details: MCPErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.code = details.code;
+    this.data = details.data;
+    this.toolName = details.toolName;
+    this.args = details.args;
+
+    const kinds: string[] = [];
+    for (let ctor: any = new.target; ctor && ctor !== Error; ctor = Object.getPrototypeOf(ctor)) {
+      if (Object.hasOwn(ctor, 'kind')) kinds.push(ctor.kind);
+    }
+    Object.defineProperty(this, ERROR_KIND, { value: kinds });
+  }
+
+  /**
+   * Match by brand, so errors from another copy of this file pass instanceof.
+   * Subclasses without their own kind fall back to the prototype check
+   */
+  static [Symbol.hasInstance](value: unknown): boolean {
+    if (!Object.hasOwn(this, 'kind')) return Function.prototype[Symbol.hasInstance].call(this, value);
+    const kinds = value !== null && typeof value === 'object' ? (value as any)[ERROR_KIND] : undefined;
+    return Array.isArray(kinds) && kinds.includes(this.kind);
+  }
+}
+
+/**
+ * The server answered with a JSON-RPC error (unknown tool, invalid params, ...)
+ */
+class MCPProtocolError extends MCPError {
+  static readonly kind: string = 'MCPProtocolError';
+}
+
+/**
+ * The tool ran but reported failure (isError: true); content is what it returned
+ */
+class MCPToolError extends MCPError {
+  static readonly kind: string = 'MCPToolError';
+
+  content: any[];
+
+  constructor(message: string, content: any[], details: MCPErrorDetails = {}) {
+    super(message, details);
+    this.content = content;
+  }
+}
+
+/**
+ * No response arrived within the time limit
+ */
+class MCPTimeoutError extends MCPError {
+  static readonly kind: string = 'MCPTimeoutError';
+
+  elapsed: number;
+  limit: number;
+
+  constructor(message: string, elapsed: number, limit: number, details: MCPErrorDetails = {}) {
+    super(message, details);
+    this.elapsed = elapsed;
+    this.limit = limit;
+  }
+}
+
+/**
+ * The server exited or the connection dropped before a response arrived
+ */
+class MCPTransportClosedError extends MCPError {
+  static readonly kind: string = 'MCPTransportClosedError';
+}
+
+/**
+ * A value did not match its JSON Schema; issues lists every violation with its path
+ */
+class MCPValidationError extends MCPError {
+  static readonly kind: string = 'MCPValidationError';
+
+  issues: ValidationIssue[];
+  value: any;
+
+  constructor(message: string, issues: ValidationIssue[], value: any, details: MCPErrorDetails = {}) {
+    super(message, details);
+    this.issues = issues;
+    this.value = value;
+  }
+}
+
+/**
+ * Path of a property or array element below `path`, e.g. $.rows[0]["first-name"]
+ */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function describeJsonType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesJsonType(value: any, type: string): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Compiled `pattern` keywords, null for ones that don't compile as a JavaScript regex
+ */
+const schemaPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a schema pattern once. Unicode mode is tried first, as JSON Schema intends, but
+ * many servers write patterns like `^[\w\.\@]+$` whose escapes only compile without it.
+ * A pattern that compiles neither way is skipped with a warning rather than failing calls.
+ */
+function schemaPattern(pattern: string): RegExp | null {
+  if (!schemaPatterns.has(pattern)) {
+    let compiled: RegExp | null = null;
+    try {
+      compiled = new RegExp(pattern, 'u');
+    } catch {
+      try {
+        compiled = new RegExp(pattern);
+      } catch (e: any) {
+        console.error(`⚠️  Ignoring schema pattern ${JSON.stringify(pattern)}: ${e.message}`);
+      }
+    }
+    schemaPatterns.set(pattern, compiled);
+  }
+  return schemaPatterns.get(pattern)!;
+}
+
+/**
+ * Checks for the string formats servers commonly declare; other formats are not checked
+ */
+const STRING_FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && !Number.isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  time: value => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  hostname: value => /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(value),
+  uri: value => /^[a-z][a-z0-9+.-]*:/i.test(value) && URL.canParse(value),
+  url: value => /^[a-z][a-z0-9+.-]*:/i.test(value) && URL.canParse(value),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  ipv4: value => isIPv4(value),
+  ipv6: value => isIPv6(value),
+};
+
+/**
+ * Resolve a local $ref (#/$defs/Name, #/definitions/Name) against the root schema
+ */
+function resolveSchemaRef(ref: string, root: any): any {
+  if (!ref.startsWith('#')) return undefined;
+  return ref.slice(1).split('/').filter(Boolean)
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => node?.[part], root);
+}
+
+/**
+ * Check a value against a JSON Schema and collect every violation.
+ * Covers the keywords MCP servers use in practice; unknown keywords are ignored.
+ */
+function validateSchema(value: any, schema: any, root: any = schema, path: string = '$', issues: ValidationIssue[] = []): ValidationIssue[] {
+  if (schema === undefined || schema === true || schema === null || typeof schema !== 'object') {
+    if (schema === false) issues.push({ path, message: 'no value is allowed here' });
+    return issues;
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveSchemaRef(schema.$ref, root);
+    if (target !== undefined) validateSchema(value, target, root, path, issues);
+  }
+
+  for (const part of schema.allOf || []) {
+    validateSchema(value, part, root, path, issues);
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((part: any) => validateSchema(value, part, root, path).length === 0)) {
+    issues.push({ path, message: `does not match any of the ${schema.anyOf.length} allowed schemas (anyOf)` });
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((part: any) => validateSchema(value, part, root, path).length === 0).length;
+    if (matches !== 1) {
+      issues.push({ path, message: `matches ${matches} of the ${schema.oneOf.length} oneOf schemas, expected exactly 1` });
+    }
+  }
+
+  if (value === null && schema.nullable) {
+    return issues;
+  }
+
+  const types: string[] | undefined = schema.type === undefined ? undefined : [].concat(schema.type);
+  if (types && !types.some(type => matchesJsonType(value, type))) {
+    issues.push({ path, message: `expected ${types.join(' | ')}, got ${describeJsonType(value)}` });
+    return issues;
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    issues.push({ path, message: `expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    issues.push({ path, message: `expected one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters, got ${value.length}` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters, got ${value.length}` });
+    }
+    if (typeof schema.pattern === 'string' && schemaPattern(schema.pattern)?.test(value) === false) {
+      issues.push({ path, message: `does not match pattern ${schema.pattern}` });
+    }
+    if (typeof schema.format === 'string' && STRING_FORMATS[schema.format] && !STRING_FORMATS[schema.format](value)) {
+      issues.push({ path, message: `is not a valid ${schema.format}: ${JSON.stringify(value)}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}, got ${value}` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `must be > ${schema.exclusiveMinimum}, got ${value}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `must be < ${schema.exclusiveMaximum}, got ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const tuple: any[] | undefined = schema.prefixItems || (Array.isArray(schema.items) ? schema.items : undefined);
+    value.forEach((item, index) => {
+      if (tuple && index < tuple.length) {
+        validateSchema(item, tuple[index], root, childPath(path, index), issues);
+      } else if (tuple) {
+        const rest = schema.prefixItems ? schema.items : schema.additionalItems;
+        if (rest === false) {
+          issues.push({ path: childPath(path, index), message: `unexpected item - the tuple has ${tuple.length} elements` });
+        } else {
+          validateSchema(item, rest, root, childPath(path, index), issues);
+        }
+      } else {
+        validateSchema(item, schema.items, root, childPath(path, index), issues);
+      }
+    });
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items, got ${value.length}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items, got ${value.length}` });
+    }
+    if (schema.uniqueItems && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      issues.push({ path, message: 'items must be unique' });
+    }
+  }
+
+  if (matchesJsonType(value, 'object')) {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        issues.push({ path: childPath(path, key), message: 'required property is missing' });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      if (key in properties) {
+        validateSchema(item, properties[key], root, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'unexpected property (additionalProperties: false)' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateSchema(item, schema.additionalProperties, root, childPath(path, key), issues);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Copy of `value` with schema defaults filled in for missing object properties, at any depth
+ */
+function applySchemaDefaults(value: any, schema: any, root: any = schema): any {
+  if (!schema || typeof schema !== 'object') return value;
+
+  if (typeof schema.$ref === 'string') {
+    value = applySchemaDefaults(value, resolveSchemaRef(schema.$ref, root), root);
+  }
+  for (const part of schema.allOf || []) {
+    value = applySchemaDefaults(value, part, root);
+  }
+
+  if (value === undefined && schema.default !== undefined) {
+    return structuredClone(schema.default);
+  }
+
+  if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+    return value.map(item => applySchemaDefaults(item, schema.items, root));
+  }
+
+  if (matchesJsonType(value, 'object') && schema.properties) {
+    const filled = { ...value };
+    for (const [key, propertySchema] of Object.entries<any>(schema.properties)) {
+      const next = applySchemaDefaults(filled[key], propertySchema, root);
+      if (next !== undefined) filled[key] = next;
+    }
+    return filled;
+  }
+
+  return value;
+}
+
+/**
+ * Fill in defaults and check arguments against the tool's inputSchema before anything is sent
+ */
+function prepareToolArgs(toolName: string, args: any, options: CallOptions): any {
+  const schema = options.inputSchema;
+  if (!schema || options.validateInput === false) return args;
+
+  const filled = applySchemaDefaults(args ?? {}, schema);
+  const issues = validateSchema(filled, schema, schema, 'params');
+  if (issues.length > 0) {
+    const count = issues.length === 1 ? '1 problem' : `${issues.length} problems`;
+    throw new MCPValidationError(
+      `Invalid arguments for tool "${toolName}" (${count}, nothing was sent):\n${formatIssues(issues)}`,
+      issues,
+      args,
+      { toolName, args }
+    );
+  }
+  return filled;
+}
+
+/**
+ * Indented one-line-per-issue report for error messages and warnings
+ */
+function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Check a tool's structuredContent against its outputSchema.
+ * Strict mode throws MCPValidationError carrying `value` (what the call returned), warn mode only logs.
+ */
+function checkToolOutput(toolName: string, args: any, result: any, value: any, schema: any, mode: ValidationMode) {
+  if (mode === 'off' || !schema) return;
+
+  const structured = result?.structuredContent;
+  const issues = structured === undefined
+    ? [{ path: '$', message: 'structuredContent is missing although the tool declares an outputSchema' }]
+    : validateSchema(structured, schema);
+  if (issues.length === 0) return;
+
+  const message = `Tool "${toolName}" returned output that does not match its outputSchema:\n${formatIssues(issues)}`;
+  if (mode === 'strict') {
+    throw new MCPValidationError(message, issues, value, { toolName, args });
+  }
+  console.warn(`⚠️  ${message}`);
+}
+
+/**
+ * Expand an RFC 6570 URI template ({var}, {+var}, {#var}, {/var}, {?a,b}, ...)
+ */
+function expandUriTemplate(template: string, values: Record<string, any> = {}): string {
+  const operators: Record<string, { first: string; sep: string; named: boolean; ifEmpty: string; reserved: boolean }> = {
+    '': { first: '', sep: ',', named: false, ifEmpty: '', reserved: false },
+    '+': { first: '', sep: ',', named: false, ifEmpty: '', reserved: true },
+    '#': { first: '#', sep: ',', named: false, ifEmpty: '', reserved: true },
+    '.': { first: '.', sep: '.', named: false, ifEmpty: '', reserved: false },
+    '/': { first: '/', sep: '/', named: false, ifEmpty: '', reserved: false },
+    ';': { first: ';', sep: ';', named: true, ifEmpty: '', reserved: false },
+    '?': { first: '?', sep: '&', named: true, ifEmpty: '=', reserved: false },
+    '&': { first: '&', sep: '&', named: true, ifEmpty: '=', reserved: false },
+  };
+
+  return template.replace(/\{([+#./;?&]?)([^}]+)\}/g, (_, operator: string, variables: string) => {
+    const op = operators[operator];
+    const encode = (value: any) => (op.reserved ? encodeURI : encodeURIComponent)(String(value));
+    const parts: string[] = [];
+
+    for (const spec of variables.split(',')) {
+      const [, name, explode, prefix] = spec.trim().match(/^([^:*]+)(\*)?(?::(\d+))?$/) || [];
+      const value = name ? values[name] : undefined;
+      if (value === undefined || value === null) continue;
+
+      if (Array.isArray(value) || typeof value === 'object') {
+        const pairs: [string, any][] = Array.isArray(value)
+          ? value.map(item => ['', item])
+          : Object.entries(value);
+        if (pairs.length === 0) continue;
+
+        if (explode) {
+          parts.push(pairs.map(([key, item]) => {
+            const label = Array.isArray(value) ? (op.named ? name : '') : encode(key);
+            return label ? `${label}=${encode(item)}` : encode(item);
+          }).join(op.sep));
+        } else {
+          const joined = pairs.map(([key, item]) => (key ? `${encode(key)},${encode(item)}` : encode(item))).join(',');
+          parts.push(op.named ? `${name}=${joined}` : joined);
+        }
+      } else {
+        const text = encode(prefix ? String(value).slice(0, Number(prefix)) : value);
+        parts.push(op.named ? (text === '' ? `${name}${op.ifEmpty}` : `${name}=${text}`) : text);
+      }
+    }
+
+    return parts.length > 0 ? op.first + parts.join(op.sep) : '';
+  });
+}
+
+/**
+ * Tool name and arguments of a request, for error context
+ */
+function requestContext(message: MCPRequest): MCPErrorDetails {
+  return message.method === 'tools/call'
+    ? { toolName: message.params?.name, args: message.params?.arguments }
+    : {};
+}
+
+/**
+ * Error used when a call is aborted through its AbortSignal
+ */
+function abortError(method: string, reason?: any): Error {
+  const error = new Error(`Request aborted: ${method}${reason !== undefined ? ` (${reason})` : ''}`);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Pick a transport for a .mcp.json server entry
+ */
+function createTransport(config: MCPServerConfig): MCPTransport {
+  if (config.type === 'sse') {
+    if (!config.url) {
+      throw new Error('SSE MCP server entry is missing "url"');
+    }
+    return new SseTransport(config.url, config.headers);
+  }
+
+  if (config.type === 'http' || (!config.type && config.url)) {
+    if (!config.url) {
+      throw new Error('HTTP MCP server entry is missing "url"');
+    }
+    return new StreamableHttpTransport(config.url, config.headers);
+  }
+
+  if (!config.command) {
+    throw new Error('stdio MCP server entry is missing "command"');
+  }
+  return new StdioTransport(config.command, config.args, config.env);
+}
+
+/**
+ * Human-readable description of where a server lives (for logs)
+ */
+function describeServer(config: MCPServerConfig): string {
+  return config.url || [config.command, ...(config.args || [])].join(' ');
+}
+
+class MCPClient {
+  private transport: MCPTransport | null = null;
+  private requestId = 0;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+  private progressHandlers = new Map<string | number, (update: ProgressUpdate) => void>();
+  private defaultTimeout = DEFAULT_TIMEOUT;
+  private toolTimeouts: Record<string, number> = {};
+  private outputValidation: ValidationMode = 'off';
+  private toolValidation: Record<string, ValidationMode> = {};
+  private transportFactory?: () => MCPTransport;
+  private restartPolicy: Required<RestartPolicy> = { retries: 3, delay: 500 };
+  private restarting: Promise<void> | null = null;
+  private closedError: Error | null = null;
+  private server: ServerDetails | null = null;
+  private savedFiles = 0;
+  private resourceListeners = new Map<string, Set<ResourceListener>>();
+
+  constructor(private projectPath: string = process.cwd()) {
+    this.setRequestHandler('ping', () => ({}));
+    this.setRequestHandler('roots/list', () => ({
+      roots: [{ uri: pathToFileURL(this.projectPath).href, name: basename(this.projectPath) }],
+    }));
+    this.setNotificationHandler('notifications/progress', params => {
+      const { progressToken, ...update } = params || {};
+      this.progressHandlers.get(progressToken)?.(update);
+    });
+    this.setNotificationHandler('notifications/resources/updated', params => {
+      for (const listener of this.resourceListeners.get(params?.uri) || []) {
+        listener(params.uri);
+      }
+    });
+  }
+
+  /**
+   * Register a handler for requests the server sends to the client
+   */
+  setRequestHandler(method: string, handler: RequestHandler) {
+    this.requestHandlers.set(method, handler);
+  }
+
+  /**
+   * Timeout (ms) for requests without a more specific limit; 0 disables it
+   */
+  setDefaultTimeout(timeout: number) {
+    this.defaultTimeout = timeout;
+  }
+
+  /**
+   * Per-tool timeouts (ms), used when a call doesn't pass its own
+   */
+  setToolTimeouts(timeouts: Record<string, number>) {
+    this.toolTimeouts = { ...timeouts };
+  }
+
+  /**
+   * How tool output is checked against outputSchema - per-tool modes beat the default
+   */
+  setOutputValidation(mode: ValidationMode, toolModes: Record<string, ValidationMode> = {}) {
+    this.outputValidation = mode;
+    this.toolValidation = { ...toolModes };
+  }
+
+  getToolTimeout(name: string): number | undefined {
+    return this.toolTimeouts[name];
+  }
+
+  /**
+   * False once the connection is gone for good (stopped, or crashed without restart)
+   */
+  isConnected(): boolean {
+    return this.transport !== null && this.closedError === null;
+  }
+
+  /**
+   * Restart the server (with exponential backoff) if its connection dies.
+   * In-flight idempotent calls are re-sent once the new session is initialized;
+   * everything else is rejected with the crash details.
+   */
+  enableRestart(createTransport: () => MCPTransport, policy: RestartPolicy = {}) {
+    this.transportFactory = createTransport;
+    this.restartPolicy = { ...this.restartPolicy, ...policy };
+  }
+
+  /**
+   * Register a handler for notifications the server sends to the client
+   */
+  setNotificationHandler(method: string, handler: NotificationHandler) {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * Answer sampling/createMessage requests (LLM completions) for the server.
+   * Must be set before connecting so the capability is advertised.
+   */
+  setSamplingHandler(handler: SamplingHandler) {
+    this.setRequestHandler('sampling/createMessage', handler);
+  }
+
+  /**
+   * Answer elicitation/create requests (confirmations, missing fields) for the server.
+   * Must be set before connecting so the capability is advertised.
+   */
+  setElicitationHandler(handler: ElicitationHandler) {
+    this.setRequestHandler('elicitation/create', handler);
+  }
+
+  /**
+   * Server details from the last initialize (null until connected)
+   */
+  getServerDetails(): ServerDetails | null {
+    return this.server;
+  }
+
+  /**
+   * Capabilities the server declared (tools, resources, prompts, logging, ...)
+   */
+  getServerCapabilities(): Record<string, any> {
+    return this.server?.capabilities || {};
+  }
+
+  /**
+   * Client capabilities derived from the handlers that are registered
+   */
+  private capabilities() {
+    const capabilities: Record<string, any> = {
+      roots: { listChanged: false },
+    };
+    if (this.requestHandlers.has('sampling/createMessage')) {
+      capabilities.sampling = {};
+    }
+    if (this.requestHandlers.has('elicitation/create')) {
+      capabilities.elicitation = {};
+    }
+    return capabilities;
+  }
+
+  async start(command: string, args: string[], env: Record<string, string> = {}) {
+    await this.connect(new StdioTransport(command, args, env));
+  }
+
+  async connect(transport: MCPTransport) {
+    this.attach(transport);
+    await transport.start();
+    await this.initialize();
+  }
+
+  private attach(transport: MCPTransport) {
+    this.transport = transport;
+    this.closedError = null;
+    transport.onmessage = message => this.handleMessage(message);
+    transport.onclose = error => this.handleClose(transport, error);
+  }
+
+  /**
+   * Connection died underneath us: fail or park pending requests, then restart if enabled
+   */
+  private handleClose(transport: MCPTransport, error: Error) {
+    if (transport !== this.transport) return;
+
+    const canRestart = Boolean(this.transportFactory);
+    for (const pending of this.pendingRequests.values()) {
+      if (canRestart && pending.idempotent) {
+        pending.retry = true;
+      } else {
+        pending.reject(new MCPTransportClosedError(error.message, { ...requestContext(pending.message), cause: error }));
+      }
+    }
+
+    if (!canRestart) {
+      this.transport = null;
+      this.closedError = error;
+      return;
+    }
+
+    // A failed restart attempt is handled by the restart loop itself
+    if (this.restarting) return;
+
+    this.restarting = this.restart(error).finally(() => {
+      this.restarting = null;
+    });
+  }
+
+  private async restart(error: Error) {
+    const { retries, delay } = this.restartPolicy;
+    let lastError = error;
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const wait = delay * 2 ** (attempt - 1);
+      console.error(`\n⚠️  ${lastError.message}`);
+      console.error(`🔄 Restarting MCP server in ${wait}ms (attempt ${attempt}/${retries})`);
+      await new Promise(resolve => setTimeout(resolve, wait));
+
+      try {
+        const transport = this.transportFactory!();
+        this.attach(transport);
+        await transport.start();
+        await this.initialize();
+      } catch (restartError: any) {
+        lastError = restartError;
+        continue;
+      }
+
+      // Replay the idempotent calls that were in flight when the server died
+      for (const pending of this.pendingRequests.values()) {
+        if (pending.retry) {
+          pending.retry = false;
+          this.transport!.send(pending.message).catch(sendError => pending.reject(sendError));
+        }
+      }
+
+      // The new session knows nothing about our subscriptions
+      for (const uri of this.resourceListeners.keys()) {
+        this.transport!.send({ jsonrpc: '2.0', id: ++this.requestId, method: 'resources/subscribe', params: { uri } })
+          .catch(() => {
+            // Reported on the next read instead
+          });
+      }
+      return;
+    }
+
+    this.transport = null;
+    this.closedError = new Error(`MCP server could not be restarted after ${retries} attempts: ${lastError.message}`);
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(new MCPTransportClosedError(this.closedError.message, { ...requestContext(pending.message), cause: lastError }));
+    }
+  }
+
+  /**
+   * Send once any restart is done; handshake messages go straight through
+   */
+  private async send(message: any) {
+    const handshake = message.method === 'initialize' || message.method === 'notifications/initialized';
+    if (this.restarting && !handshake) {
+      await this.restarting;
+    }
+    if (this.closedError) {
+      throw new MCPTransportClosedError(this.closedError.message, { ...requestContext(message), cause: this.closedError });
+    }
+    if (!this.transport) {
+      throw new MCPTransportClosedError('MCP client is not connected', requestContext(message));
+    }
+    await this.transport.send(message);
+  }
+
+  private handleMessage(message: any) {
+    if (typeof message?.method === 'string') {
+      // Server-initiated request (has an id) or notification (no id)
+      if (message.id !== undefined && message.id !== null) {
+        this.handleServerRequest(message);
+      } else {
+        this.notificationHandlers.get(message.method)?.(message.params);
+      }
+      return;
+    }
+
+    const response: MCPResponse = message;
+    const pending = this.pendingRequests.get(response.id);
+
+    if (pending) {
+      this.pendingRequests.delete(response.id);
+      if (response.error) {
+        const { code, message: errorMessage, data } = response.error;
+        pending.reject(new MCPProtocolError(errorMessage || JSON.stringify(response.error), {
+          code,
+          data,
+          ...requestContext(pending.message),
+        }));
+      } else {
+        pending.resolve(response.result);
+      }
+    }
+  }
+
+  /**
+   * Dispatch a server-initiated request and send back its result or error
+   */
+  private async handleServerRequest(request: MCPServerRequest) {
+    const handler = this.requestHandlers.get(request.method);
+
+    let reply: any;
+    if (!handler) {
+      reply = {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: METHOD_NOT_FOUND, message: `Method not found: ${request.method}` },
+      };
+    } else {
+      try {
+        reply = { jsonrpc: '2.0', id: request.id, result: await handler(request.params) };
+      } catch (error: any) {
+        reply = {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: INTERNAL_ERROR, message: error?.message || String(error) },
+        };
+      }
+    }
+
+    this.transport?.send(reply).catch(() => {
+      // Server went away before we could reply
+    });
+  }
+
+  private async initialize() {
+    const result = await this.request('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: this.capabilities(),
+      clientInfo: {
+        name: 'mcp-code-wrapper-executor',
+        version: '1.0.0',
+      },
+    });
+
+    // Server answers with our version or the newest one it supports itself
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result?.protocolVersion)) {
+      await this.stop();
+      throw new Error(
+        `MCP server uses unsupported protocol version ${result?.protocolVersion} ` +
+        `(supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`
+      );
+    }
+
+    this.server = {
+      protocolVersion: result.protocolVersion,
+      capabilities: result.capabilities || {},
+      serverInfo: result.serverInfo,
+      instructions: result.instructions,
+    };
+    this.transport?.setProtocolVersion?.(result.protocolVersion);
+
+    this.notify('notifications/initialized', {});
+  }
+
+  private request(method: string, params?: any, options: CallOptions = {}): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const { signal, onProgress } = options;
+      if (signal?.aborted) {
+        reject(abortError(method, signal.reason));
+        return;
+      }
+
+      const id = ++this.requestId;
+      const limit = options.timeout ?? this.defaultTimeout;
+      const label = method === 'tools/call' ? `Tool "${params?.name}"` : `Request "${method}"`;
+      const startedAt = Date.now();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(id);
+        this.progressHandlers.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      // Progress counts as a sign of life, so each update restarts the clock
+      const armTimeout = () => {
+        clearTimeout(timer);
+        if (limit <= 0) return;
+        timer = setTimeout(() => {
+          if (this.pendingRequests.has(id)) {
+            cleanup();
+            const elapsed = Date.now() - startedAt;
+            reject(new MCPTimeoutError(
+              `${label} timed out after ${elapsed}ms (limit: ${limit}ms)`,
+              elapsed,
+              limit,
+              requestContext({ jsonrpc: '2.0', id, method, params })
+            ));
+          }
+        }, limit);
+      };
+
+      const onAbort = () => {
+        if (!this.pendingRequests.has(id)) return;
+        cleanup();
+        this.notify('notifications/cancelled', { requestId: id, reason: String(signal?.reason ?? 'Aborted') });
+        reject(abortError(method, signal?.reason));
+      };
+
+      if (onProgress) {
+        params = { ...params, _meta: { ...params?._meta, progressToken: id } };
+        this.progressHandlers.set(id, update => {
+          armTimeout();
+          onProgress(update);
+        });
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const request: MCPRequest = {
+        jsonrpc: '2.0',
+        id,
+        method,
+        params,
+      };
+
+      this.pendingRequests.set(id, {
+        resolve: (result: any) => { cleanup(); resolve(result); },
+        reject: (error: any) => { cleanup(); reject(error); },
+        message: request,
+        // Tool calls may have side effects, so only replay them when marked safe
+        idempotent: options.idempotent ?? (method !== 'tools/call' && method !== 'initialize'),
+      });
+      this.send(request).catch(error => {
+        if (this.pendingRequests.has(id)) {
+          cleanup();
+          reject(error);
+        }
+      });
+
+      armTimeout();
+    });
+  }
+
+  private notify(method: string, params?: any) {
+    const notification = {
+      jsonrpc: '2.0',
+      method,
+      params,
+    };
+    this.send(notification).catch(() => {
+      // Notifications are fire-and-forget
+    });
+  }
+
+  async callTool(name: string, args: any = {}, options: CallOptions = {}): Promise<any> {
+    args = prepareToolArgs(name, args, options);
+    const result = await this.request('tools/call', {
+      name,
+      arguments: args,
+    }, { ...options, timeout: options.timeout ?? this.toolTimeouts[name] });
+
+    // Failures reported inside the result must not be mistaken for data
+    if (result?.isError) {
+      const content = result.content || [];
+      const text = content
+        .filter((block: any) => block?.type === 'text')
+        .map((block: any) => block.text)
+        .join('\n');
+      throw new MCPToolError(`Tool "${name}" failed${text ? `: ${text}` : ''}`, content, { toolName: name, args });
+    }
+
+    // Tools with an outputSchema return this exact shape - no guessing from text content
+    const value = result?.structuredContent !== undefined
+      ? result.structuredContent
+      : await this.normalizeResponse(result, name);
+
+    const mode = options.validateOutput ?? this.toolValidation[name] ?? this.outputValidation;
+    checkToolOutput(name, args, result, value, options.outputSchema, mode);
+    return value;
+  }
+
+  /**
+   * Raw tools/list page - pass the previous page's nextCursor for the next one
+   */
+  async listTools(cursor?: string): Promise<any> {
+    return await this.request('tools/list', cursor ? { cursor } : {});
+  }
+
+  /**
+   * Raw resources/list page - pass the previous page's nextCursor for the next one
+   */
+  async listResources(cursor?: string): Promise<any> {
+    return await this.request('resources/list', cursor ? { cursor } : {});
+  }
+
+  /**
+   * Raw resources/templates/list page - pass the previous page's nextCursor for the next one
+   */
+  async listResourceTemplates(cursor?: string): Promise<any> {
+    return await this.request('resources/templates/list', cursor ? { cursor } : {});
+  }
+
+  /**
+   * Read a resource by URI - one entry per part the server returns
+   */
+  async readResource(uri: string, options: CallOptions = {}): Promise<ResourceContents[]> {
+    const result = await this.request('resources/read', { uri }, options);
+    return result?.contents || [];
+  }
+
+  /**
+   * Read a resource through a URI template, e.g. db://tables/{table}/schema
+   */
+  async readResourceTemplate(uriTemplate: string, params: Record<string, any> = {}, options: CallOptions = {}): Promise<ResourceContents[]> {
+    return await this.readResource(expandUriTemplate(uriTemplate, params), options);
+  }
+
+  /**
+   * Raw prompts/list page - pass the previous page's nextCursor for the next one
+   */
+  async listPrompts(cursor?: string): Promise<any> {
+    return await this.request('prompts/list', cursor ? { cursor } : {});
+  }
+
+  /**
+   * Render a prompt with its arguments (all prompt arguments are strings)
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, options: CallOptions = {}): Promise<PromptResult> {
+    const result = await this.request('prompts/get', { name, arguments: args }, options);
+    return { description: result?.description, messages: result?.messages || [] };
+  }
+
+  /**
+   * Ask the server for values of a prompt argument or template variable starting with `value`.
+   * `context` passes arguments already chosen, for servers that narrow by them.
+   */
+  async complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    context: Record<string, string> = {},
+    options: CallOptions = {}
+  ): Promise<CompletionResult> {
+    const params: Record<string, any> = { ref, argument };
+    if (Object.keys(context).length > 0) {
+      params.context = { arguments: context };
+    }
+    const result = await this.request('completion/complete', params, options);
+    return result?.completion || { values: [] };
+  }
+
+  /**
+   * Get told when a resource changes (needs the server's resources.subscribe capability).
+   * Resolves to a function that removes the listener again.
+   */
+  async subscribeResource(uri: string, listener: ResourceListener): Promise<() => Promise<void>> {
+    if (!this.getServerCapabilities().resources?.subscribe) {
+      throw new MCPError(`Server does not support resource subscriptions (${uri})`);
+    }
+
+    let listeners = this.resourceListeners.get(uri);
+    if (!listeners) {
+      listeners = new Set();
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.request('resources/subscribe', { uri });
+      } catch (error) {
+        this.resourceListeners.delete(uri);
+        throw error;
+      }
+    }
+    listeners.add(listener);
+
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) return;
+      this.resourceListeners.delete(uri);
+      if (this.isConnected()) {
+        await this.request('resources/unsubscribe', { uri });
+      }
+    };
+  }
+
+  /**
+   * Normalize MCP responses to handle common unusual formats
+   */
+  private async normalizeResponse(result: any, toolName: string): Promise<any> {
+    if (!Array.isArray(result?.content)) {
+      return this.normalizeData(result);
+    }
+
+    const blocks: any[] = result.content;
+    if (blocks.length === 0) {
+      return [];
+    }
+
+    // Text only: parse JSON, or hand back the text itself
+    if (blocks.every(block => block?.type === 'text')) {
+      const texts = blocks.map(block => String(block.text ?? ''));
+      if (texts.length === 1) {
+        return this.parseText(texts[0]);
+      }
+
+      // One JSON document per block (e.g. one row each)...
+      const parsed = texts.map(text => this.tryParseJson(text));
+      if (parsed.every(value => value !== undefined)) {
+        return parsed.map(value => this.normalizeData(value));
+      }
+      // ...or one document split over several blocks, or plain prose
+      return this.parseText(texts.join('\n'));
+    }
+
+    const normalized = [];
+    for (const block of blocks) {
+      normalized.push(await this.normalizeBlock(block, toolName));
+    }
+    return normalized.length === 1 ? normalized[0] : normalized;
+  }
+
+  /**
+   * One content block: text parsed, binary saved to a file, resources as typed objects
+   */
+  private async normalizeBlock(block: any, toolName: string): Promise<any> {
+    switch (block?.type) {
+      case 'text':
+        return this.parseText(String(block.text ?? ''));
+      case 'image':
+      case 'audio': {
+        const mimeType = block.mimeType || 'application/octet-stream';
+        const { path, bytes } = await this.saveBinary(block.data || '', mimeType, toolName);
+        const file: ContentFile = { type: block.type, path, mimeType, bytes };
+        return file;
+      }
+      case 'resource': {
+        const { uri, mimeType, text, blob } = block.resource || {};
+        const resource: EmbeddedResource = { type: 'resource', uri, mimeType };
+        if (blob !== undefined) {
+          Object.assign(resource, await this.saveBinary(blob, mimeType || 'application/octet-stream', toolName));
+        } else {
+          resource.text = text;
+        }
+        return resource;
+      }
+      case 'resource_link': {
+        const link: ResourceLink = { ...block, type: 'resource_link' };
+        return link;
+      }
+      default:
+        return block;
+    }
+  }
+
+  private parseText(text: string): any {
+    const parsed = this.tryParseJson(text);
+    return parsed === undefined ? text : this.normalizeData(parsed);
+  }
+
+  private tryParseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write base64 content to .claude/temp/mcp-output/ and return where it went
+   */
+  private async saveBinary(base64: string, mimeType: string, toolName: string): Promise<{ path: string; bytes: number }> {
+    const directory = join(this.projectPath, CONTENT_OUTPUT_DIR);
+    await mkdir(directory, { recursive: true });
+
+    const data = Buffer.from(base64, 'base64');
+    const subtype = mimeType.split('/')[1]?.replace(/^x-/, '').split('+')[0].replace(/[^a-z0-9]/gi, '');
+    const extension = MIME_EXTENSIONS[mimeType] || subtype || 'bin';
+    const safeTool = toolName.replace(/[^\w-]+/g, '_');
+    const path = join(directory, `${safeTool}-${Date.now()}-${++this.savedFiles}.${extension}`);
+    await writeFile(path, data);
+
+    return { path, bytes: data.length };
+  }
+
+  /**
+   * Recursively normalize data structures
+   */
+  private normalizeData(data: any): any {
+    if (Array.isArray(data)) {
+      return data.map(item => this.normalizeData(item));
+    }
+
+    if (data && typeof data === 'object') {
+      // Handle { "": value } pattern - unwrap to just value
+      const keys = Object.keys(data);
+      if (keys.length === 1 && keys[0] === '') {
+        const value = data[''];
+        // If value is a primitive, return it directly
+        if (typeof value !== 'object') {
+          return value;
+        }
+        // If value is an object, normalize it
+        return this.normalizeData(value);
+      }
+
+      // Otherwise normalize each property
+      const normalized: any = {};
+      for (const [key, value] of Object.entries(data)) {
+        normalized[key] = this.normalizeData(value);
+      }
+      return normalized;
+    }
+
+    return data;
+  }
+
+  async stop() {
+    // Intentional shutdown - never restart from here
+    this.transportFactory = undefined;
+
+    if (this.transport) {
+      // Fail in-flight requests - rejecting also clears their timers
+      for (const pending of [...this.pendingRequests.values()]) {
+        pending.reject(new MCPTransportClosedError('MCP client was stopped', requestContext(pending.message)));
+      }
+      this.pendingRequests.clear();
+
+      const transport = this.transport;
+      this.transport = null;
+      await transport.close();
+    }
+  }
+}
+
+/**
+ * Load MCP server config from .mcp.json
+ */
+async function loadServerConfig(serverName: string): Promise<MCPServerConfig> {
+  const mcpJsonPath = join(process.cwd(), '.mcp.json');
+  const content = await readFile(mcpJsonPath, 'utf-8');
+  const config = JSON.parse(content);
+
+  const actualServerName = await resolveServerName(serverName);
+
+  const serverConfig = config.mcpServers?.[actualServerName];
+  if (!serverConfig) {
+    throw new Error(`Server "${actualServerName}" not found in .mcp.json`);
+  }
+
+  return {
+    type: serverConfig.type,
+    command: serverConfig.command,
+    args: serverConfig.args || [],
+    env: serverConfig.env || {},
+    url: serverConfig.url,
+    headers: serverConfig.headers || {},
+    sampling: serverConfig.sampling,
+    elicitation: serverConfig.elicitation,
+    timeout: serverConfig.timeout,
+    restart: serverConfig.restart,
+    validateOutput: serverConfig.validateOutput
+  };
+}
+
+/**
+ * Map a wrapper name (e.g. a shared wrapper) back to its .mcp.json server name
+ */
+async function resolveServerName(serverName: string): Promise<string> {
+  const serverMapping = await loadServerMapping();
+  return Object.keys(serverMapping).find(key => serverMapping[key] === serverName) || serverName;
+}
+
+/**
+ * Load project-level wrapper settings from mcp-wrapper.config.json
+ */
+async function loadWrapperConfig(): Promise<WrapperConfig> {
+  try {
+    const configPath = join(process.cwd(), 'mcp-wrapper.config.json');
+    const content = await readFile(configPath, 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Per-tool settings for a server from mcp-wrapper.config.json
+ */
+async function loadToolSettings(serverName: string): Promise<NonNullable<NonNullable<WrapperConfig['servers']>[string]['tools']>> {
+  const wrapperConfig = await loadWrapperConfig();
+  const actualServerName = await resolveServerName(serverName);
+  return wrapperConfig.servers?.[actualServerName]?.tools || wrapperConfig.servers?.[serverName]?.tools || {};
+}
+
+/**
+ * Per-tool output validation modes for a server from mcp-wrapper.config.json
+ */
+async function loadToolValidation(serverName: string): Promise<Record<string, ValidationMode>> {
+  const modes: Record<string, ValidationMode> = {};
+  for (const [tool, settings] of Object.entries(await loadToolSettings(serverName))) {
+    if (settings.validateOutput) {
+      modes[tool] = settings.validateOutput;
+    }
+  }
+  return modes;
+}
+
+/**
+ * Per-tool timeouts for a server from mcp-wrapper.config.json
+ */
+async function loadToolTimeouts(serverName: string): Promise<Record<string, number>> {
+  const tools = await loadToolSettings(serverName);
+
+  const timeouts: Record<string, number> = {};
+  for (const [tool, settings] of Object.entries(tools)) {
+    if (typeof settings.timeout === 'number') {
+      timeouts[tool] = settings.timeout;
+    }
+  }
+  return timeouts;
+}
+
+/**
+ * Build a sampling handler from a .mcp.json "sampling" entry
+ */
+function createSamplingHandler(config: SamplingConfig): SamplingHandler {
+  if (config.responses) {
+    const responsesPath = resolve(process.cwd(), config.responses);
+    let index = 0;
+
+    return async () => {
+      const content = JSON.parse(await readFile(responsesPath, 'utf-8'));
+      if (!Array.isArray(content)) {
+        return content;
+      }
+      if (content.length === 0) {
+        throw new Error(`No canned sampling responses in ${config.responses}`);
+      }
+      // Step through the list, repeating the last response once exhausted
+      return content[Math.min(index++, content.length - 1)];
+    };
+  }
+
+  if (config.command) {
+    const command = config.command;
+
+    return (params: any) => new Promise((resolve, reject) => {
+      const child = spawn(command, config.args || [], {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env, ...config.env }
+      });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+      child.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+      child.on('error', reject);
+      child.on('close', (code: number | null) => {
+        if (code !== 0) {
+          reject(new Error(`Sampling command exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(stdout));
+        } catch {
+          reject(new Error('Sampling command did not print a JSON result'));
+        }
+      });
+
+      child.stdin.end(JSON.stringify(params));
+    });
+  }
+
+  throw new Error('"sampling" entry needs either "command" or "responses"');
+}
+
+/**
+ * Prompt user for input
+ */
+async function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Convert a prompted answer to the type a requestedSchema property asks for
+ */
+function parseElicitedValue(answer: string, schema: any): any {
+  if (schema.enum && !schema.enum.includes(answer)) {
+    throw new Error(`Must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  switch (schema.type) {
+    case 'boolean':
+      if (/^(y|yes|true)$/i.test(answer)) return true;
+      if (/^(n|no|false)$/i.test(answer)) return false;
+      throw new Error('Answer y or n');
+    case 'number':
+    case 'integer': {
+      const value = Number(answer);
+      if (Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        throw new Error(`Expected ${schema.type}`);
+      }
+      return value;
+    }
+    default:
+      return answer;
+  }
+}
+
+/**
+ * Ask the user on the terminal to accept, decline or cancel, then fill in each field
+ */
+function createPromptElicitationHandler(serverName: string): ElicitationHandler {
+  return async (params: any) => {
+    console.log(`\n❓ ${serverName} asks: ${params.message}`);
+
+    const choice = (await prompt('   Accept? [y]es / [n]o (decline) / [c]ancel: ')).toLowerCase();
+    if (choice.startsWith('c')) return { action: 'cancel' };
+    if (!choice.startsWith('y')) return { action: 'decline' };
+
+    const properties: Record<string, any> = params.requestedSchema?.properties || {};
+    const required = new Set<string>(params.requestedSchema?.required || []);
+    const content: Record<string, any> = {};
+
+    for (const [name, schema] of Object.entries(properties)) {
+      const label = schema.title || name;
+      const hints = [
+        schema.enum ? schema.enum.join('/') : schema.type,
+        schema.default !== undefined ? `default: ${schema.default}` : '',
+      ].filter(Boolean).join(', ');
+
+      while (true) {
+        const answer = await prompt(`   ${label}${schema.description ? ` - ${schema.description}` : ''} (${hints}): `);
+
+        if (answer === '') {
+          if (schema.default !== undefined) {
+            content[name] = schema.default;
+            break;
+          }
+          if (!required.has(name)) break;
+          console.log('   ⚠️  Required');
+          continue;
+        }
+
+        try {
+          content[name] = parseElicitedValue(answer, schema);
+          break;
+        } catch (error: any) {
+          console.log(`   ⚠️  ${error.message}`);
+        }
+      }
+    }
+
+    return { action: 'accept', content };
+  };
+}
+
+/**
+ * Answer elicitations unattended from a policy file
+ */
+function createPolicyElicitationHandler(policyPath: string): ElicitationHandler {
+  const fullPath = resolve(process.cwd(), policyPath);
+
+  return async (params: any) => {
+    const policy: ElicitationPolicy = JSON.parse(await readFile(fullPath, 'utf-8'));
+    const message = String(params.message || '');
+    const rule = (policy.rules || []).find(r => new RegExp(r.match, 'i').test(message));
+    const action = rule?.action || policy.default || 'decline';
+
+    if (action !== 'accept') {
+      return { action };
+    }
+
+    // Start from schema defaults so rules only need to list what differs
+    const content: Record<string, any> = {};
+    for (const [name, schema] of Object.entries<any>(params.requestedSchema?.properties || {})) {
+      if (schema.default !== undefined) {
+        content[name] = schema.default;
+      }
+    }
+
+    return { action, content: { ...content, ...rule?.content } };
+  };
+}
+
+/**
+ * Load server-to-wrapper mapping
+ */
+async function loadServerMapping(): Promise<Record<string, string>> {
+  try {
+    const mappingPath = join(process.cwd(), '.mcp-wrappers', '.mcp-server-mapping.json');
+    const content = await readFile(mappingPath, 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Create wrapper function proxy that calls MCP tools
+ */
+function createWrapperProxy(client: Pick<MCPClient, 'callTool'>) {
+  return new Proxy({}, {
+    get(target, prop) {
+      if (typeof prop === 'string') {
+        return async (params: any, options?: CallOptions) => {
+          return await client.callTool(prop, params, options);
+        };
+      }
+      return undefined;
+    }
+  });
+}
+
+/**
+ * Detect if this is a TypeScript local server (wrappers in .mcp-server/dist/wrappers/)
+ * This checks if the SERVER ITSELF is built locally, not if the project has any local servers
+ */
+async function isTypescriptLocal(serverName: string): Promise<boolean> {
+  try {
+    const { stat } = await import('fs/promises');
+    const config = await loadServerConfig(serverName);
+
+    // Remote servers are never local builds
+    if (!config.command) {
+      return false;
+    }
+
+    // Check if the command points to a local .mcp-server directory
+    const isLocalServer = config.command.includes('.mcp-server') ||
+                          (config.args || []).some(arg => arg.includes('.mcp-server'));
+
+    if (!isLocalServer) {
+      return false;
+    }
+
+    // Verify the wrappers directory exists
+    const wrappersPath = join(process.cwd(), '.mcp-server', 'dist', 'wrappers');
+    await stat(wrappersPath);
+    return true;
+  } catch {
     return false;
   }
 }
 
 /**
- * Execute user code with MCP client active
+ * Client for a .mcp.json server with restart, timeouts and the config-level
+ * sampling/elicitation handlers applied (not yet connected)
+ */
+async function createServerClient(
+  serverName: string,
+  config: MCPServerConfig,
+  options: { timeout?: number; validateOutput?: ValidationMode } = {}
+): Promise<MCPClient> {
+  const client = new MCPClient();
+
+  if (config.restart) {
+    client.enableRestart(() => createTransport(config), typeof config.restart === 'object' ? config.restart : {});
+  }
+
+  // --timeout beats the server default; per-tool and per-call limits beat both
+  client.setDefaultTimeout(options.timeout ?? config.timeout ?? DEFAULT_TIMEOUT);
+  client.setToolTimeouts(await loadToolTimeouts(serverName));
+  // Same layering for output validation: per call > per tool > --validate-output > .mcp.json
+  client.setOutputValidation(options.validateOutput ?? config.validateOutput ?? 'off', await loadToolValidation(serverName));
+
+  if (config.sampling) {
+    client.setSamplingHandler(createSamplingHandler(config.sampling));
+  }
+  if (config.elicitation?.policy) {
+    client.setElicitationHandler(createPolicyElicitationHandler(config.elicitation.policy));
+  }
+
+  return client;
+}
+
+/**
+ * What wrappers need from a client - an MCPClient or a daemon attachment
+ */
+type ToolClient = Pick<
+  MCPClient,
+  'callTool' | 'readResource' | 'readResourceTemplate' | 'subscribeResource' | 'getPrompt' | 'complete' | 'stop'
+>;
+
+/**
+ * Settings for the clients behind wrapper calls - see connect()
+ */
+interface ConnectOptions {
+  /** Server configs by wrapper name; servers not listed are read from .mcp.json in the working directory */
+  servers?: Record<string, MCPServerConfig>;
+  timeout?: number;
+  validateOutput?: ValidationMode;
+  /**
+   * Attach to a running executor daemon for .mcp.json servers. By default every run attaches
+   * except one in an interactive terminal, which keeps its own servers so elicitation can prompt
+   */
+  daemon?: boolean;
+  sampling?: SamplingHandler;
+  elicitation?: ElicitationHandler;
+}
+
+/**
+ * Clients for every .mcp.json server a script touches, keyed by server name.
+ * Generated wrappers look up their own server here; it starts on first use.
+ */
+class ClientRegistry {
+  private clients = new Map<string, Promise<ToolClient>>();
+
+  constructor(private options: ConnectOptions & { primaryServer?: string } = {}) {}
+
+  /**
+   * Server behind a wrapper name - for shared wrappers the one named on the command line wins
+   */
+  async resolve(name: string): Promise<string> {
+    if (this.options.servers?.[name]) {
+      return name;
+    }
+    const primary = this.options.primaryServer;
+    if (primary && (name === primary || (await loadServerMapping())[primary] === name)) {
+      return primary;
+    }
+    return resolveServerName(name);
+  }
+
+  async get(name: string): Promise<ToolClient> {
+    const serverName = await this.resolve(name);
+
+    let client = this.clients.get(serverName);
+    if (!client) {
+      const starting = this.start(serverName);
+      this.clients.set(serverName, starting);
+      // A later call may retry a server that failed to start
+      starting.catch(() => {
+        if (this.clients.get(serverName) === starting) {
+          this.clients.delete(serverName);
+        }
+      });
+      client = starting;
+    }
+    return client;
+  }
+
+  /**
+   * Client-side handlers exported by the script. Servers started from here on use them -
+   * one started by a top-level wrapper call while the script was loading does not.
+   */
+  setHandlers(handlers: { sampling?: SamplingHandler; elicitation?: ElicitationHandler }) {
+    Object.assign(this.options, handlers);
+  }
+
+  private async start(serverName: string): Promise<ToolClient> {
+    const inline = this.options.servers?.[serverName];
+    const config = inline ?? await loadServerConfig(serverName);
+    const { sampling, elicitation } = this.options;
+
+    // Handlers exported by the script have to run in this process, so such
+    // scripts always get their own servers - as do servers the daemon can't know about.
+    // The daemon can't reach this terminal either, so interactive runs only attach when asked to.
+    const interactive = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+    if ((this.options.daemon ?? !interactive) && !sampling && !elicitation && !inline) {
+      const daemon = await DaemonClient.connect(serverName, this.options.timeout);
+      if (daemon) {
+        daemon.setOutputValidation(this.options.validateOutput ?? config.validateOutput ?? 'off', await loadToolValidation(serverName));
+        console.log(`🔌 ${serverName}: attached to executor daemon (${daemonSocketPath()})\n`);
+        return daemon;
+      }
+    }
+
+    // Protocol server: spawn MCP subprocess or connect to remote endpoint
+    const verb = config.command ? 'Spawning' : 'Connecting to';
+    console.log(`📡 ${verb} MCP server ${serverName}: ${describeServer(config)}\n`);
+    const client = await createServerClient(serverName, config, this.options);
+
+    // Script export wins over the project-level handler
+    if (sampling) {
+      client.setSamplingHandler(sampling);
+    }
+
+    // Elicitation: script callback, then the terminal, then the policy file
+    if (elicitation) {
+      client.setElicitationHandler(elicitation);
+    } else if (interactive) {
+      client.setElicitationHandler(createPromptElicitationHandler(serverName));
+    }
+
+    await client.connect(createTransport(config));
+    return client;
+  }
+
+  /**
+   * Stop own servers and detach from the daemon
+   */
+  async stop() {
+    const clients = [...this.clients.values()];
+    this.clients.clear();
+    await Promise.allSettled(clients.map(async client => (await client).stop()));
+  }
+}
+
+/**
+ * Route wrapper calls made outside the executor CLI, e.g. from an app that imports a
+ * compiled wrapper package. Installs the registry the wrappers look up; servers start
+ * on first use. Returns a function that stops them.
+ */
+function connect(options: ConnectOptions = {}): () => Promise<void> {
+  const registry = new ClientRegistry(options);
+  (globalThis as any).__mcpClients = registry;
+
+  return async () => {
+    if ((globalThis as any).__mcpClients === registry) {
+      delete (globalThis as any).__mcpClients;
+    }
+    await registry.stop();
+  };
+}
+
+/**
+ * Outcome of a script run: its default export's return value, or the error it threw
+ */
+interface ExecutionResult {
+  result?: any;
+  error?: Error;
+}
+
+// Pre-flight check: type-check a script against the wrappers before anything runs
+
+/**
+ * One problem the pre-flight check found in a script
+ */
+interface ScriptDiagnostic {
+  /** file:line, relative to the working directory */
+  location: string;
+  message: string;
+  /** Signature of the wrapper being called, parameter types spelled out */
+  expected?: string;
+  /** Names that were probably meant - properties, exports or wrapper files */
+  suggestions: string[];
+}
+
+/**
+ * The pre-flight check stopped a script: it doesn't type-check against the wrappers
+ * (see `diagnostics`), or it couldn't be checked. Raised before the script is
+ * loaded, so none of it ran and no server was started.
+ */
+class ScriptCheckError extends Error {
+  diagnostics: ScriptDiagnostic[];
+
+  constructor(message: string, diagnostics: ScriptDiagnostic[] = []) {
+    super(message);
+    this.name = 'ScriptCheckError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * "Cannot find name 'process'/'require'/... - do you need to install type definitions for node?"
+ */
+const MISSING_NODE_TYPES = new Set([2580, 2591, 2592]);
+
+/**
+ * Case-insensitive Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      const same = a[i - 1].toLowerCase() === b[j - 1].toLowerCase();
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (same ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Candidates close enough to `name` to be what was meant, best first.
+ * get-issue, get_issue and getIssue count as the same name.
+ */
+function closestNames(name: string, candidates: Iterable<string>, limit: number = 3): string[] {
+  const plain = (value: string) => value.toLowerCase().replace(/[-_.]/g, '');
+  return [...new Set(candidates)]
+    .filter(candidate => candidate !== name)
+    .map(candidate => ({
+      candidate,
+      distance: plain(candidate) === plain(name) ? 0 : editDistance(name, candidate),
+      contains: name.length >= 3 && (plain(candidate).includes(plain(name)) || plain(name).includes(plain(candidate))),
+    }))
+    .filter(({ candidate, distance, contains }) => contains || distance <= Math.max(2, Math.floor(Math.max(name.length, candidate.length) / 3)))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Type-check a script and the wrappers it imports without running anything.
+ * Only problems in the script's own files are reported - wrappers were checked when
+ * they were generated. Calls into wrappers come with the expected signature, and
+ * unknown properties, exports and wrapper paths with "did you mean" suggestions.
+ */
+async function checkScript(codeFile: string): Promise<ScriptDiagnostic[]> {
+  let typescript: typeof ts;
+  try {
+    typescript = (await import('typescript')).default;
+  } catch (e) {
+    throw new ScriptCheckError('The pre-flight check needs the typescript package in this project: npm install --save-dev typescript');
+  }
+
+  const program = typescript.createProgram([resolve(codeFile)], {
+    noEmit: true,
+    allowImportingTsExtensions: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    target: typescript.ScriptTarget.ES2022,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+  });
+  const checker = program.getTypeChecker();
+
+  // Without @types/node, Node globals and builtins are unknown - that's not the script's fault
+  const hasNodeTypes = program.getSourceFiles().some(file => /[\\/]@types[\\/]node[\\/]/.test(file.fileName));
+  const isWrapperFile = (fileName: string) => fileName.split(/[\\/]/).includes('.mcp-wrappers');
+
+  const innermostNode = (file: ts.SourceFile, position: number): ts.Node => {
+    const visit = (node: ts.Node): ts.Node | undefined =>
+      node.getStart(file) <= position && position < node.getEnd() ? typescript.forEachChild(node, visit) || node : undefined;
+    return typescript.forEachChild(file, visit) || file;
+  };
+
+  // "name(params: { a: string; b?: number }, options?: CallOptions)" for a call into a wrapper
+  const describeCall = (call: ts.CallExpression): string | undefined => {
+    const declaration = checker.getResolvedSignature(call)?.getDeclaration();
+    if (!declaration || !isWrapperFile(declaration.getSourceFile().fileName)) return undefined;
+
+    const params = declaration.parameters.map(parameter => {
+      const name = parameter.name.getText();
+      const type = checker.getTypeAtLocation(parameter);
+      const properties = type.getProperties();
+      // Spell out params/args objects; CallOptions is the same for every wrapper
+      const spellOut = name !== 'options' && properties.length > 0 && (type.getFlags() & typescript.TypeFlags.Object) !== 0
+        && !checker.isArrayType(type) && type.getCallSignatures().length === 0;
+      const typeText = spellOut
+        ? `{ ${properties.map(property => `${property.name}${property.flags & typescript.SymbolFlags.Optional ? '?' : ''}: ${checker.typeToString(checker.getTypeOfSymbolAtLocation(property, call))}`).join('; ')} }`
+        : checker.typeToString(type);
+      return `${name}${parameter.questionToken || parameter.initializer ? '?' : ''}: ${typeText}`;
+    });
+    return `${call.expression.getText()}(${params.join(', ')})`;
+  };
+
+  // Wrapper files under .mcp-wrappers/ (sources, or declarations of compiled packages),
+  // for imports that point at a path that doesn't exist
+  let wrapperFiles: string[] | undefined;
+  const wrapperName = (file: string) => basename(file).replace(/(\.d)?\.ts$/, '');
+  const findWrapperFiles = async () => {
+    if (!wrapperFiles) {
+      const entries = await readdir(resolve('.mcp-wrappers'), { recursive: true }).catch(() => [] as string[]);
+      wrapperFiles = entries
+        .filter(entry => entry.endsWith('.ts') && !entry.split(sep).some(part => part.startsWith('.'))
+          && wrapperName(entry) !== 'index' && wrapperName(entry) !== 'runtime-executor')
+        .map(entry => resolve('.mcp-wrappers', entry));
+    }
+    return wrapperFiles;
+  };
+
+  const suggest = async (diagnostic: ts.Diagnostic, node: ts.Node): Promise<string[]> => {
+    // TypeScript's own "Did you mean" is already in the message
+    if (/Did you mean/.test(typescript.flattenDiagnosticMessageText(diagnostic.messageText, '\n'))) return [];
+
+    const parent = node.parent;
+    if (typescript.isIdentifier(node) && parent && (typescript.isPropertyAssignment(parent) || typescript.isShorthandPropertyAssignment(parent)) && parent.name === node) {
+      // Unknown property in an object literal: compare with what the parameter accepts
+      const expected = checker.getContextualType(parent.parent as ts.ObjectLiteralExpression);
+      return expected ? closestNames(node.text, expected.getProperties().map(property => property.name)) : [];
+    }
+    if (typescript.isIdentifier(node) && parent && typescript.isPropertyAccessExpression(parent) && parent.name === node) {
+      // Unknown property read, e.g. on a typed result
+      return closestNames(node.text, checker.getTypeAtLocation(parent.expression).getProperties().map(property => property.name));
+    }
+    if (typescript.isIdentifier(node) && parent && typescript.isImportSpecifier(parent)) {
+      // Importing a name the wrapper doesn't export
+      const declaration = parent.parent.parent.parent;
+      const module = checker.getSymbolAtLocation(declaration.moduleSpecifier);
+      return module ? closestNames((parent.propertyName || parent.name).text, checker.getExportsOfModule(module).map(symbol => symbol.name)) : [];
+    }
+    if (typescript.isStringLiteral(node) && parent && typescript.isImportDeclaration(parent) && isWrapperFile(node.text)) {
+      // Wrong wrapper path, e.g. the wrong category directory
+      const files = await findWrapperFiles();
+      const wanted = basename(node.text).replace(/\.[jt]s$/, '');
+      const names = files.map(wrapperName);
+      const extension = node.text.match(/\.[jt]s$/)?.[0] || '';
+      // Same server first - the directory after .mcp-wrappers/ in the import
+      const parts = node.text.split('/');
+      const server = parts[parts.indexOf('.mcp-wrappers') + 1];
+      const sameServer = (file: string) => relative(resolve('.mcp-wrappers'), file).split(sep)[0] === server ? 0 : 1;
+      const matches = [wanted, ...closestNames(wanted, names)]
+        .flatMap(name => files.filter(file => wrapperName(file) === name).sort((a, b) => sameServer(a) - sameServer(b)));
+      return matches.slice(0, 3).map(file => {
+        const target = relative(dirname(node.getSourceFile().fileName), file).split(sep).join('/');
+        return `${target.startsWith('.') ? '' : './'}${target.replace(/(\.d)?\.ts$/, extension)}`;
+      });
+    }
+    return [];
+  };
+
+  const problems: ScriptDiagnostic[] = [];
+  for (const diagnostic of typescript.getPreEmitDiagnostics(program)) {
+    const file = diagnostic.file;
+    if (!file || file.isDeclarationFile || isWrapperFile(file.fileName) || file.fileName.includes('/node_modules/')) continue;
+    if (!hasNodeTypes && MISSING_NODE_TYPES.has(diagnostic.code)) continue;
+
+    const position = diagnostic.start ?? 0;
+    const node = innermostNode(file, position);
+    if (!hasNodeTypes && diagnostic.code === 2307 && typescript.isStringLiteral(node) && isBuiltin(node.text)) continue;
+
+    let call: ts.Node | undefined = node;
+    while (call && !typescript.isCallExpression(call)) call = call.parent;
+
+    const { line } = file.getLineAndCharacterOfPosition(position);
+    problems.push({
+      location: `${relative(process.cwd(), file.fileName)}:${line + 1}`,
+      message: typescript.flattenDiagnosticMessageText(diagnostic.messageText, '\n').split('\n').map(part => part.trim()).join(' '),
+      expected: call ? describeCall(call as ts.CallExpression) : undefined,
+      suggestions: await suggest(diagnostic, node),
+    });
+  }
+  return problems;
+}
+
+/**
+ * Compact listing of pre-flight problems: location and message, then what the wrapper expects
  */
-async function executeCode(serverName: string, codeFile: string) {
-  console.log(`🚀 Starting MCP executor for server: ${serverName}\n`);
+function formatScriptDiagnostics(diagnostics: ScriptDiagnostic[]): string {
+  return diagnostics.map(diagnostic => [
+    `${diagnostic.location} - ${diagnostic.message}`,
+    ...(diagnostic.expected ? [`    expected: ${diagnostic.expected}`] : []),
+    ...(diagnostic.suggestions.length > 0 ? [`    did you mean: ${diagnostic.suggestions.join(', ')}`] : []),
+  ].join('\n')).join('\n');
+}
 
-  // Load server config
-  const config = await loadServerConfig(serverName);
+/**
+ * Execute user code with MCP clients active
+ */
+async function executeCode(
+  serverName: string | undefined,
+  codeFile: string,
+  options: { timeout?: number; validateOutput?: ValidationMode; daemon?: boolean; check?: boolean } = {}
+): Promise<ExecutionResult> {
+  // Pre-flight: wrong wrapper calls are reported before the script is loaded or a server starts
+  if (options.check) {
+    let diagnostics: ScriptDiagnostic[];
+    try {
+      diagnostics = await checkScript(codeFile);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      return { error };
+    }
+    if (diagnostics.length > 0) {
+      const count = `${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'}`;
+      const error = new ScriptCheckError(`${codeFile} failed the pre-flight check (${count}) - nothing was run`, diagnostics);
+      console.error(`❌ ${error.message}\n\n${formatScriptDiagnostics(diagnostics)}`);
+      return { error };
+    }
+    console.log(`✅ Pre-flight check passed: ${codeFile}\n`);
+  }
 
-  // Check if this is a TypeScript local server
-  const isLocal = await isTypescriptLocal(serverName);
+  console.log(`🚀 Starting MCP executor${serverName ? ` for server: ${serverName}` : ''}\n`);
 
-  let client: MCPClient | null = null;
+  // Check if this is a TypeScript local server
+  const isLocal = serverName ? await isTypescriptLocal(serverName) : false;
 
-  if (isLocal) {
+  if (serverName && isLocal) {
     // TypeScript local: just set env vars, no MCP subprocess needed!
     console.log(`⚡ TypeScript local mode: Direct imports\n`);
-    Object.assign(process.env, config.env);
-  } else {
-    // Protocol server: spawn MCP subprocess
-    console.log(`📡 Spawning MCP server: ${config.command} ${config.args.join(' ')}\n`);
-    client = new MCPClient();
-    await client.start(config.command, config.args, config.env);
+    Object.assign(process.env, (await loadServerConfig(serverName)).env);
   }
 
-  console.log(`✅ MCP executor ready\n`);
+  const registry = new ClientRegistry({
+    primaryServer: isLocal ? undefined : serverName,
+    timeout: options.timeout,
+    validateOutput: options.validateOutput,
+    daemon: options.daemon,
+  });
+
+  // Stop the servers on Ctrl+C / kill so they aren't left running as orphans
+  const shutdown = (signal: NodeJS.Signals) => {
+    console.error(`\n🛑 Received ${signal}, stopping MCP servers...`);
+    registry.stop().finally(() => process.exit(signal === 'SIGINT' ? 130 : 143));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  // Servers are only kept warm by the daemon - detach from it, or stop our own
+  const cleanup = async () => {
+    process.off('SIGINT', shutdown);
+    process.off('SIGTERM', shutdown);
+    await registry.stop();
+  };
 
-  // Create global proxy for wrapper functions (only for protocol servers)
-  if (client) {
-    const wrapperProxy = createWrapperProxy(client);
+  // Wrappers route by their own server name; other servers start lazily.
+  // Installed before the script loads so wrapper calls at its top level work.
+  (global as any).__mcpClients = registry;
+
+  if (serverName && !isLocal) {
+    // Single-server global kept for older wrappers and scripts
+    const client = {
+      callTool: async (name: string, args?: any, callOptions?: CallOptions) =>
+        (await registry.get(serverName)).callTool(name, args, callOptions),
+    };
     (global as any).__mcpClient = client;
-    (global as any).__mcpWrapper = wrapperProxy;
+    (global as any).__mcpWrapper = createWrapperProxy(client);
+  }
+
+  // The script may export client-side handlers that have to be registered
+  // before a server is initialized
+  let codeModule: any;
+  try {
+    codeModule = await import(pathToFileURL(codeFile).href);
+  } catch (error: any) {
+    console.error(`❌ Failed to load ${codeFile}:`, error.message);
+    await cleanup();
+    return { error };
+  }
+  registry.setHandlers({
+    sampling: typeof codeModule.sampling === 'function' ? codeModule.sampling : undefined,
+    elicitation: typeof codeModule.elicitation === 'function' ? codeModule.elicitation : undefined,
+  });
+
+  if (serverName && !isLocal) {
+    // The server named on the command line starts right away so setup errors
+    // surface before the script runs
+    try {
+      await registry.get(serverName);
+    } catch (error) {
+      await cleanup();
+      throw error;
+    }
   }
 
+  console.log(`✅ MCP executor ready\n`);
+
   // Read and execute user code
   console.log(`📝 Executing: ${codeFile}\n`);
   console.log('='.repeat(70));
@@ -331,9 +2788,6 @@ async function executeCode(serverName: string, codeFile: string) {
   console.log('='.repeat(70) + '\n');
 
   try {
-    // Import and execute the code file
-    const codeModule = await import(pathToFileURL(codeFile).href);
-
     // If it has a default export that's a function, call it
     if (typeof codeModule.default === 'function') {
       const result = await codeModule.default();
@@ -343,17 +2797,694 @@ async function executeCode(serverName: string, codeFile: string) {
         console.log('='.repeat(70));
         console.log(JSON.stringify(result, null, 2));
       }
+      return { result };
     }
+    return {};
   } catch (error: any) {
     console.error('\n❌ Execution error:', error.message);
     if (error.stack) {
       console.error('\nStack trace:');
       console.error(error.stack);
     }
+    return { error };
   } finally {
     console.log('\n' + '='.repeat(70));
-    // Don't stop the client - leave MCP server running for reuse
-    // It will clean up when the process exits
+    await cleanup();
+  }
+}
+
+// Executor daemon: keeps initialized clients per server between scripts
+
+const DAEMON_SOCKET = '.executor.sock';
+const DAEMON_LOG = '.executor-daemon.log';
+const DEFAULT_DAEMON_IDLE = 10 * 60 * 1000;
+
+function daemonSocketPath(projectPath: string = process.cwd()): string {
+  return join(projectPath, '.mcp-wrappers', DAEMON_SOCKET);
+}
+
+/**
+ * Call newline-delimited JSON messages from a socket
+ */
+function readJsonLines(socket: Socket, onMessage: (message: any) => void) {
+  let buffer = '';
+  socket.setEncoding('utf8');
+  socket.on('data', chunk => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue; // Ignore malformed lines
+      }
+      onMessage(message);
+    }
+  });
+}
+
+/**
+ * Connect to the daemon socket, or null if nothing is listening
+ */
+function connectSocket(socketPath: string): Promise<Socket | null> {
+  return new Promise(resolve => {
+    const socket = createConnection(socketPath);
+    socket.once('connect', () => {
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', () => resolve(null));
+  });
+}
+
+/**
+ * Plain-object form of an error, so MCPError subclasses survive the socket
+ */
+function serializeError(error: any) {
+  return {
+    name: error?.name || 'Error',
+    message: error?.message || String(error),
+    code: error?.code,
+    data: error?.data,
+    toolName: error?.toolName,
+    args: error?.args,
+    content: error?.content,
+    elapsed: error?.elapsed,
+    limit: error?.limit,
+    issues: error?.issues,
+    value: error?.value,
+  };
+}
+
+function deserializeError(info: ReturnType<typeof serializeError>): Error {
+  const details: MCPErrorDetails = { code: info.code, data: info.data, toolName: info.toolName, args: info.args };
+  switch (info.name) {
+    case 'MCPToolError':
+      return new MCPToolError(info.message, info.content || [], details);
+    case 'MCPTimeoutError':
+      return new MCPTimeoutError(info.message, info.elapsed, info.limit, details);
+    case 'MCPProtocolError':
+      return new MCPProtocolError(info.message, details);
+    case 'MCPTransportClosedError':
+      return new MCPTransportClosedError(info.message, details);
+    case 'MCPValidationError':
+      return new MCPValidationError(info.message, info.issues || [], info.value, details);
+    case 'MCPError':
+      return new MCPError(info.message, details);
+    default: {
+      const error = new Error(info.message);
+      error.name = info.name;
+      return error;
+    }
+  }
+}
+
+/**
+ * Script-side stand-in for MCPClient that forwards tool calls to the daemon
+ */
+class DaemonClient {
+  private requestId = 0;
+  private pendingRequests = new Map<number, {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    onProgress?: (update: ProgressUpdate) => void;
+  }>();
+  private resourceListeners = new Map<string, Set<ResourceListener>>();
+  private outputValidation: ValidationMode = 'off';
+  private toolValidation: Record<string, ValidationMode> = {};
+
+  constructor(private socket: Socket, private serverName?: string, private runTimeout?: number) {
+    readJsonLines(socket, message => this.handleMessage(message));
+    socket.on('error', () => {
+      // 'close' follows and fails everything in flight
+    });
+    socket.on('close', () => {
+      const error = new MCPTransportClosedError('Connection to the executor daemon closed');
+      for (const pending of this.pendingRequests.values()) {
+        pending.reject(error);
+      }
+      this.pendingRequests.clear();
+    });
+  }
+
+  /**
+   * Attach to the project's daemon, or null if it isn't running
+   */
+  static async connect(serverName?: string, runTimeout?: number, projectPath?: string): Promise<DaemonClient | null> {
+    const socket = await connectSocket(daemonSocketPath(projectPath));
+    return socket ? new DaemonClient(socket, serverName, runTimeout) : null;
+  }
+
+  private handleMessage(message: any) {
+    // Forwarded server notification for one of our subscriptions
+    if (message.event === 'resources/updated') {
+      for (const listener of this.resourceListeners.get(message.uri) || []) {
+        listener(message.uri);
+      }
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.id);
+    if (!pending) return;
+
+    if ('progress' in message) {
+      pending.onProgress?.(message.progress);
+      return;
+    }
+
+    this.pendingRequests.delete(message.id);
+    if (message.error) {
+      pending.reject(deserializeError(message.error));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  request(message: Record<string, any>, options: Pick<CallOptions, 'onProgress' | 'signal'> = {}): Promise<any> {
+    const { onProgress, signal } = options;
+    const label = message.tool ? 'tools/call' : message.method;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(label, signal.reason));
+        return;
+      }
+
+      const id = ++this.requestId;
+      const onAbort = () => {
+        if (!this.pendingRequests.delete(id)) return;
+        this.write({ method: 'cancel', target: id, reason: String(signal?.reason ?? 'Aborted') });
+        reject(abortError(label, signal?.reason));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(id, {
+        resolve: result => { signal?.removeEventListener('abort', onAbort); resolve(result); },
+        reject: error => { signal?.removeEventListener('abort', onAbort); reject(error); },
+        onProgress,
+      });
+      this.write({ id, ...message });
+    });
+  }
+
+  private write(message: any) {
+    if (!this.socket.destroyed) {
+      this.socket.write(JSON.stringify(message) + '\n');
+    }
+  }
+
+  setOutputValidation(mode: ValidationMode, toolModes: Record<string, ValidationMode> = {}) {
+    this.outputValidation = mode;
+    this.toolValidation = { ...toolModes };
+  }
+
+  async callTool(name: string, args: any = {}, options: CallOptions = {}): Promise<any> {
+    const { onProgress, signal, timeout, idempotent, outputSchema } = options;
+    const mode = options.validateOutput ?? this.toolValidation[name] ?? this.outputValidation;
+    // Checked here so bad arguments never reach the daemon
+    args = prepareToolArgs(name, args, options);
+
+    try {
+      return await this.request({
+        method: 'call',
+        server: this.serverName,
+        tool: name,
+        args,
+        // The daemon always validates strictly; warnings are printed here, in the script's output
+        options: { timeout, idempotent, outputSchema, validateOutput: mode === 'off' ? 'off' : 'strict' },
+        runTimeout: this.runTimeout,
+        progress: Boolean(onProgress),
+      }, { onProgress, signal });
+    } catch (error) {
+      if (mode === 'warn' && error instanceof MCPValidationError) {
+        console.warn(`⚠️  ${error.message}`);
+        return error.value;
+      }
+      throw error;
+    }
+  }
+
+  async readResource(uri: string, options: CallOptions = {}): Promise<ResourceContents[]> {
+    const { signal, timeout } = options;
+    return this.request({
+      method: 'read',
+      server: this.serverName,
+      uri,
+      options: { timeout },
+      runTimeout: this.runTimeout,
+    }, { signal });
+  }
+
+  async readResourceTemplate(uriTemplate: string, params: Record<string, any> = {}, options: CallOptions = {}): Promise<ResourceContents[]> {
+    return this.readResource(expandUriTemplate(uriTemplate, params), options);
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}, options: CallOptions = {}): Promise<PromptResult> {
+    const { signal, timeout } = options;
+    return this.request({
+      method: 'prompt',
+      server: this.serverName,
+      prompt: name,
+      args,
+      options: { timeout },
+      runTimeout: this.runTimeout,
+    }, { signal });
+  }
+
+  async complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    context: Record<string, string> = {},
+    options: CallOptions = {}
+  ): Promise<CompletionResult> {
+    const { signal, timeout } = options;
+    return this.request({
+      method: 'complete',
+      server: this.serverName,
+      ref,
+      argument,
+      context,
+      options: { timeout },
+      runTimeout: this.runTimeout,
+    }, { signal });
+  }
+
+  async subscribeResource(uri: string, listener: ResourceListener): Promise<() => Promise<void>> {
+    let listeners = this.resourceListeners.get(uri);
+    if (!listeners) {
+      listeners = new Set();
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.request({ method: 'subscribe', server: this.serverName, uri });
+      } catch (error) {
+        this.resourceListeners.delete(uri);
+        throw error;
+      }
+    }
+    listeners.add(listener);
+
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) return;
+      this.resourceListeners.delete(uri);
+      if (!this.socket.destroyed) {
+        await this.request({ method: 'unsubscribe', server: this.serverName, uri });
+      }
+    };
+  }
+
+  /**
+   * Detach from the daemon (its servers keep running)
+   */
+  async stop() {
+    this.socket.end();
+  }
+}
+
+/**
+ * A server held by the daemon: initializing until the client resolves
+ */
+interface DaemonServerEntry {
+  starting: Promise<MCPClient>;
+  client?: MCPClient;
+  error?: string;
+}
+
+/**
+ * Long-lived process that keeps initialized clients per server and serves
+ * tool calls from scripts over a Unix socket
+ */
+class ExecutorDaemon {
+  private servers = new Map<string, DaemonServerEntry>();
+  private connections = new Set<Socket>();
+  private listener = createServer(socket => this.handleConnection(socket));
+  private startedAt = Date.now();
+  private lastActivity = Date.now();
+  private callsServed = 0;
+
+  constructor(
+    private socketPath: string,
+    private idleTimeout: number = DEFAULT_DAEMON_IDLE,
+    private options: { timeout?: number } = {}
+  ) {}
+
+  async listen() {
+    const existing = await connectSocket(this.socketPath);
+    if (existing) {
+      existing.destroy();
+      throw new Error(`An executor daemon is already listening on ${this.socketPath}`);
+    }
+    await mkdir(join(this.socketPath, '..'), { recursive: true });
+    await unlink(this.socketPath).catch(() => {
+      // No stale socket left behind
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.listener.once('error', reject);
+      this.listener.listen(this.socketPath, () => resolve());
+    });
+
+    process.once('SIGINT', () => this.shutdown('SIGINT'));
+    process.once('SIGTERM', () => this.shutdown('SIGTERM'));
+
+    if (this.idleTimeout > 0) {
+      setInterval(() => {
+        if (this.connections.size === 0 && Date.now() - this.lastActivity >= this.idleTimeout) {
+          this.shutdown(`idle for ${Math.round(this.idleTimeout / 1000)}s`);
+        }
+      }, Math.min(this.idleTimeout, 30000));
+    }
+
+    console.log(`🟢 Executor daemon listening on ${this.socketPath} (pid ${process.pid})`);
+  }
+
+  /**
+   * Initialized client for a server - started on first use, replaced if it died
+   */
+  private async client(serverName: string): Promise<MCPClient> {
+    const existing = this.servers.get(serverName);
+    if (existing && (!existing.client || existing.client.isConnected())) {
+      return existing.starting;
+    }
+
+    const entry: DaemonServerEntry = {
+      starting: (async () => {
+        const config = await loadServerConfig(serverName);
+        console.log(`📡 Starting ${serverName}: ${describeServer(config)}`);
+        const client = await createServerClient(serverName, config, this.options);
+        await client.connect(createTransport(config));
+        return client;
+      })(),
+    };
+    this.servers.set(serverName, entry);
+
+    try {
+      entry.client = await entry.starting;
+      return entry.client;
+    } catch (error: any) {
+      entry.error = error.message;
+      this.servers.delete(serverName);
+      throw error;
+    }
+  }
+
+  private handleConnection(socket: Socket) {
+    this.connections.add(socket);
+    this.lastActivity = Date.now();
+
+    // Calls in flight for this script, so they can be cancelled
+    const calls = new Map<number, AbortController>();
+    // Resource subscriptions held for this script, keyed by server + URI
+    const subscriptions = new Map<string, () => Promise<void>>();
+
+    socket.on('error', () => {
+      // Script went away - handled on close
+    });
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      this.lastActivity = Date.now();
+      for (const controller of calls.values()) {
+        controller.abort('Script disconnected');
+      }
+      for (const unsubscribe of subscriptions.values()) {
+        unsubscribe().catch(() => {
+          // Server already gone
+        });
+      }
+    });
+
+    readJsonLines(socket, message => {
+      this.handleRequest(socket, message, calls, subscriptions);
+    });
+  }
+
+  private async handleRequest(
+    socket: Socket,
+    message: any,
+    calls: Map<number, AbortController>,
+    subscriptions: Map<string, () => Promise<void>>
+  ) {
+    const reply = (payload: Record<string, any>) => {
+      if (!socket.destroyed) {
+        socket.write(JSON.stringify({ id: message.id, ...payload }) + '\n');
+      }
+    };
+    this.lastActivity = Date.now();
+
+    try {
+      switch (message.method) {
+        case 'call': {
+          const client = await this.client(message.server);
+          const controller = new AbortController();
+          calls.set(message.id, controller);
+          this.callsServed++;
+
+          try {
+            const result = await client.callTool(message.tool, message.args, {
+              ...message.options,
+              // Per-tool config beats the --timeout of the script run
+              timeout: message.options?.timeout ?? client.getToolTimeout(message.tool) ?? message.runTimeout,
+              signal: controller.signal,
+              onProgress: message.progress ? update => reply({ progress: update }) : undefined,
+            });
+            reply({ result });
+          } finally {
+            calls.delete(message.id);
+            this.lastActivity = Date.now();
+          }
+          break;
+        }
+        case 'read': {
+          const client = await this.client(message.server);
+          const controller = new AbortController();
+          calls.set(message.id, controller);
+
+          try {
+            const result = await client.readResource(message.uri, {
+              timeout: message.options?.timeout ?? message.runTimeout,
+              signal: controller.signal,
+            });
+            reply({ result });
+          } finally {
+            calls.delete(message.id);
+            this.lastActivity = Date.now();
+          }
+          break;
+        }
+        case 'prompt':
+        case 'complete': {
+          const client = await this.client(message.server);
+          const controller = new AbortController();
+          calls.set(message.id, controller);
+
+          try {
+            const options = { timeout: message.options?.timeout ?? message.runTimeout, signal: controller.signal };
+            const result = message.method === 'prompt'
+              ? await client.getPrompt(message.prompt, message.args, options)
+              : await client.complete(message.ref, message.argument, message.context, options);
+            reply({ result });
+          } finally {
+            calls.delete(message.id);
+            this.lastActivity = Date.now();
+          }
+          break;
+        }
+        case 'subscribe': {
+          const key = `${message.server}\n${message.uri}`;
+          if (!subscriptions.has(key)) {
+            const client = await this.client(message.server);
+            subscriptions.set(key, await client.subscribeResource(message.uri, uri => {
+              if (!socket.destroyed) {
+                socket.write(JSON.stringify({ event: 'resources/updated', server: message.server, uri }) + '\n');
+              }
+            }));
+          }
+          reply({ result: {} });
+          break;
+        }
+        case 'unsubscribe': {
+          const key = `${message.server}\n${message.uri}`;
+          await subscriptions.get(key)?.();
+          subscriptions.delete(key);
+          reply({ result: {} });
+          break;
+        }
+        case 'cancel':
+          calls.get(message.target)?.abort(message.reason);
+          break;
+        case 'connect':
+          await this.client(message.server);
+          reply({ result: { server: message.server } });
+          break;
+        case 'status':
+          reply({ result: this.status() });
+          break;
+        case 'stop':
+          reply({ result: { stopping: true } });
+          await this.shutdown('stop requested');
+          break;
+        default:
+          reply({ error: { name: 'Error', message: `Unknown daemon method: ${message.method}` } });
+      }
+    } catch (error: any) {
+      reply({ error: serializeError(error) });
+    }
+  }
+
+  private status() {
+    return {
+      pid: process.pid,
+      socket: this.socketPath,
+      uptime: Date.now() - this.startedAt,
+      idleTimeout: this.idleTimeout,
+      // Not counting the connection asking for the status
+      scripts: this.connections.size - 1,
+      callsServed: this.callsServed,
+      servers: [...this.servers.entries()].map(([name, entry]) => ({
+        name,
+        state: !entry.client ? 'starting' : entry.client.isConnected() ? 'ready' : 'closed',
+        serverInfo: entry.client?.getServerDetails()?.serverInfo,
+        protocolVersion: entry.client?.getServerDetails()?.protocolVersion,
+      })),
+    };
+  }
+
+  private async shutdown(reason: string) {
+    console.log(`🛑 Executor daemon stopping (${reason})`);
+    this.listener.close();
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+
+    await Promise.allSettled([...this.servers.values()].map(async entry => {
+      const client = entry.client ?? await entry.starting;
+      await client.stop();
+    }));
+    await unlink(this.socketPath).catch(() => {
+      // Already removed
+    });
+    process.exit(0);
+  }
+}
+
+/**
+ * Start the daemon in the background and wait until its socket accepts connections
+ */
+async function startDaemon(args: string[], warmServers: string[]) {
+  const socketPath = daemonSocketPath();
+  let daemon = await DaemonClient.connect();
+
+  if (!daemon) {
+    await mkdir(join(socketPath, '..'), { recursive: true });
+    const logPath = join(socketPath, '..', DAEMON_LOG);
+    const log = openSync(logPath, 'a');
+
+    // Same runtime (including the tsx loader) as this process
+    const child = spawn(process.execPath, [...process.execArgv, process.argv[1], 'daemon', 'run', ...args], {
+      cwd: process.cwd(),
+      detached: true,
+      stdio: ['ignore', log, log],
+    });
+    child.unref();
+
+    const deadline = Date.now() + 15000;
+    while (!daemon && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      daemon = await DaemonClient.connect();
+    }
+    if (!daemon) {
+      console.error(`❌ Executor daemon did not start - see ${logPath}`);
+      process.exit(1);
+    }
+    console.log(`🟢 Executor daemon started (pid ${child.pid}, log: ${logPath})`);
+  } else {
+    console.log(`🟢 Executor daemon already running on ${socketPath}`);
+  }
+
+  for (const serverName of warmServers) {
+    try {
+      await daemon.request({ method: 'connect', server: serverName });
+      console.log(`   ✅ ${serverName} ready`);
+    } catch (error: any) {
+      console.error(`   ❌ ${serverName}: ${error.message}`);
+      process.exitCode = 1;
+    }
+  }
+  await daemon.stop();
+}
+
+async function daemonCommand(args: string[]) {
+  const [command, ...rest] = args;
+
+  // Flags shared by start/run; anything else is a server name to warm up
+  const flags: string[] = [];
+  const servers: string[] = [];
+  let idle = DEFAULT_DAEMON_IDLE;
+  let timeout: number | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--idle' || rest[i] === '--timeout') {
+      const value = Number(rest[i + 1]);
+      if (!Number.isFinite(value) || value < 0) {
+        console.log(`${rest[i]} expects a number of milliseconds (0 disables)`);
+        process.exit(1);
+      }
+      if (rest[i] === '--idle') idle = value;
+      else timeout = value;
+      flags.push(rest[i], rest[++i]);
+    } else {
+      servers.push(rest[i]);
+    }
+  }
+
+  switch (command) {
+    case 'start':
+      await startDaemon(flags, servers);
+      return;
+    case 'run':
+      await new ExecutorDaemon(daemonSocketPath(), idle, { timeout }).listen();
+      return;
+    case 'status': {
+      const daemon = await DaemonClient.connect();
+      if (!daemon) {
+        console.log('⚪ Executor daemon is not running');
+        process.exitCode = 1;
+        return;
+      }
+      const status = await daemon.request({ method: 'status' });
+      await daemon.stop();
+
+      const idleLabel = status.idleTimeout > 0 ? `idle shutdown after ${Math.round(status.idleTimeout / 1000)}s` : 'no idle shutdown';
+      console.log(`🟢 Executor daemon running (pid ${status.pid}, up ${Math.round(status.uptime / 1000)}s, ${idleLabel})`);
+      console.log(`   Socket: ${status.socket}`);
+      console.log(`   Scripts attached: ${status.scripts}, tool calls served: ${status.callsServed}`);
+      if (status.servers.length === 0) {
+        console.log('   No servers started yet');
+      }
+      for (const server of status.servers) {
+        const info = server.serverInfo ? ` - ${server.serverInfo.name} ${server.serverInfo.version}, protocol ${server.protocolVersion}` : '';
+        console.log(`   - ${server.name}: ${server.state}${info}`);
+      }
+      return;
+    }
+    case 'stop': {
+      const daemon = await DaemonClient.connect();
+      if (!daemon) {
+        console.log('⚪ Executor daemon is not running');
+        return;
+      }
+      await daemon.request({ method: 'stop' });
+      await daemon.stop();
+      console.log('🛑 Executor daemon stopped');
+      return;
+    }
+    default:
+      console.log('Usage: npx tsx .mcp-wrappers/.runtime-executor.ts daemon <start|run|status|stop> [--idle <ms>] [--timeout <ms>] [server...]');
+      process.exit(1);
   }
 }
 
@@ -361,20 +3492,67 @@ async function executeCode(serverName: string, codeFile: string) {
 async function main() {
   const args = process.argv.slice(2);
 
-  if (args.length < 2) {
-    console.log('Usage: npx tsx .mcp-wrappers/.runtime-executor.ts <server-name> <code-file>');
+  if (args[0] === 'daemon') {
+    await daemonCommand(args.slice(1));
+    return;
+  }
+
+  // Separate flags from the positional <server-name> <code-file>
+  const positional: string[] = [];
+  let timeout: number | undefined;
+  let validateOutput: ValidationMode | undefined;
+  let daemon: boolean | undefined;
+  let check = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--daemon' || args[i] === '--no-daemon') {
+      daemon = args[i] === '--daemon';
+    } else if (args[i] === '--check') {
+      check = true;
+    } else if (args[i] === '--timeout') {
+      timeout = Number(args[++i]);
+      if (!Number.isFinite(timeout) || timeout < 0) {
+        console.log('--timeout expects a number of milliseconds (0 disables)');
+        process.exit(1);
+      }
+    } else if (args[i] === '--validate-output') {
+      const mode = args[++i];
+      if (mode !== 'off' && mode !== 'warn' && mode !== 'strict') {
+        console.log('--validate-output expects off, warn or strict');
+        process.exit(1);
+      }
+      validateOutput = mode;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  if (positional.length < 1 || positional.length > 2) {
+    console.log('Usage: npx tsx .mcp-wrappers/.runtime-executor.ts [--timeout <ms>] [--validate-output <mode>] [--check] [--daemon | --no-daemon] [server-name] <code-file>');
+    console.log('       npx tsx .mcp-wrappers/.runtime-executor.ts daemon <start|run|status|stop> [--idle <ms>] [server...]');
     console.log('\nExample:');
     console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts mssql ./my-query.ts');
+    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts --timeout 120000 mssql ./my-report.ts');
+    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts --validate-output strict mssql ./my-report.ts');
+    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts --check mssql ./my-report.ts');
+    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts ./uses-several-servers.ts');
+    console.log('  npx tsx .mcp-wrappers/.runtime-executor.ts daemon start mssql');
+    console.log('  node .mcp-wrappers/mssql/runtime-executor.js mssql ./my-report.js   (wrappers generated with --output js)');
     process.exit(1);
   }
 
-  const [serverName, codeFile] = args;
-  await executeCode(serverName, codeFile);
+  // A lone argument is the script; its wrappers pick their own servers
+  const [serverName, codeFile] = positional.length === 2 ? positional : [undefined, positional[0]];
+  const { error } = await executeCode(serverName, codeFile, { timeout, validateOutput, daemon, check });
+  if (error instanceof ScriptCheckError) {
+    process.exitCode = 1;
+  }
 }
 
-// Only run main if this is the entry point
-if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+// Only run main if this is the entry point (argv[1] is unset under node -e and the REPL)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   main().catch(console.error);
 }
 
-export { MCPClient, createWrapperProxy, executeCode };
+export { SUPPORTED_PROTOCOL_VERSIONS, LATEST_PROTOCOL_VERSION, expandUriTemplate, MCPError, MCPProtocolError, MCPToolError, MCPTimeoutError, MCPTransportClosedError, MCPValidationError, ScriptCheckError, validateSchema, resolveSchemaRef, MCPClient, StdioTransport, StreamableHttpTransport, SseTransport, createTransport, describeServer, createSamplingHandler, createPromptElicitationHandler, createPolicyElicitationHandler, createWrapperProxy, createServerClient, ClientRegistry, connect, executeCode, DaemonClient, ExecutorDaemon };
+export type { ConnectOptions, ExecutionResult, ScriptDiagnostic, ToolClient, ResourceContents, ResourceListener, ContentFile, EmbeddedResource, ResourceLink, PromptResult, CompletionReference, CompletionResult, ServerDetails, MCPErrorDetails, ValidationMode, ValidationIssue, MCPServerConfig, WrapperConfig, RestartPolicy, MCPTransport, CallOptions, ProgressUpdate, SamplingConfig, SamplingHandler, ElicitationConfig, ElicitationPolicy, ElicitationHandler };